@@ -1,4 +1,4 @@
-import { css, html, LitElement } from "lit";
+import { css, html, LitElement, type PropertyDeclaration } from "lit";
 import {
   customElement,
   property,
@@ -24,24 +24,169 @@ const boolish = {
 };
 
 type ControlsMode = "auto" | "always" | "never";
+type Orientation = "horizontal" | "vertical";
+type Align = "start" | "center" | "end";
+type PaginationStyle = "pill" | "line" | "skewed" | "dot" | "scrollbar";
+type AutoplayDirection = "forward" | "backward";
+type WheelAxis = "main" | "both";
+type AutoplayPauseReason =
+  | "hover"
+  | "focus"
+  | "drag"
+  | "wheel"
+  | "hidden"
+  | "offscreen"
+  | "reduced-motion";
+
+export interface GoToOptions {
+  animate?: boolean;
+}
+
+export interface SlideEffectContext {
+  /** Slide position in items relative to the aligned (active) slot. */
+  progress: number;
+  /** Translation in px the plain slide layout would use. */
+  offset: number;
+  /** Translation in px of the aligned slot itself. */
+  align: number;
+  /** Item size in px along the scroll axis, gap included. */
+  size: number;
+  index: number;
+  count: number;
+  vertical: boolean;
+  /** Physical sign of the forward direction: -1 for right-to-left. */
+  direction: 1 | -1;
+}
+
+export interface SlideEffectStyle {
+  transform?: string;
+  opacity?: number;
+  zIndex?: number;
+  filter?: string;
+}
+
+const EFFECT_PROPS = ["opacity", "zIndex", "filter"] as const;
+type EffectProp = (typeof EFFECT_PROPS)[number];
+
+export type SlideEffect = (
+  ctx: SlideEffectContext,
+  slide: HTMLElement,
+) => SlideEffectStyle;
+
+const translate = ({ offset, vertical }: SlideEffectContext) =>
+  `translate${vertical ? "Y" : "X"}(${offset}px)`;
+
+const slideEffects: Record<string, SlideEffect> = {
+  fade: ({ progress, align, vertical }) => {
+    const d = Math.min(1, Math.abs(progress));
+    return {
+      transform: `translate${vertical ? "Y" : "X"}(${align}px)`,
+      opacity: 1 - d,
+      zIndex: d < 0.5 ? 2 : 1,
+    };
+  },
+  scale: (ctx) => {
+    const d = Math.min(1, Math.abs(ctx.progress));
+    return { transform: `${translate(ctx)} scale(${1 - d * 0.15})` };
+  },
+  coverflow: (ctx) => {
+    const p = Math.max(-1, Math.min(1, ctx.progress));
+    const rotate = ctx.vertical
+      ? `rotateX(${p * 40}deg)`
+      : `rotateY(${-p * 40 * ctx.direction}deg)`;
+    const d = Math.min(3, Math.abs(ctx.progress));
+    return {
+      transform: `${translate(ctx)} perspective(1000px) ${rotate} scale(${1 - Math.abs(p) * 0.15})`,
+      zIndex: 100 - Math.round(d * 10),
+    };
+  },
+  cards: (ctx) => {
+    const p = ctx.progress;
+    if (p <= 0) return { transform: translate(ctx), zIndex: 100 };
+    // Upcoming slides stay stacked behind the active one.
+    const axis = ctx.vertical ? "Y" : "X";
+    return {
+      transform: `translate${axis}(${ctx.align + ctx.direction * Math.min(p, 3) * 12}px) scale(${1 - Math.min(p, 3) * 0.06})`,
+      opacity: p > 3 ? 0 : 1,
+      zIndex: 100 - Math.ceil(p),
+    };
+  },
+};
+
+const BREAKPOINT_KEYS = [
+  "columns",
+  "gap",
+  "slideWidth",
+  "preloadItems",
+  "infinite",
+  "snap",
+  "freeMode",
+  "autoHeight",
+  "controls",
+  "controlsMode",
+  "pagination",
+  "paginationStyle",
+  "paginationGroup",
+  "effect",
+  "align",
+] as const;
+
+export type BreakpointOptions = Partial<
+  Pick<LeafCarousel, (typeof BREAKPOINT_KEYS)[number]>
+>;
+export type Breakpoints = Record<number, BreakpointOptions>;
+
+const breakpointsConv = {
+  fromAttribute(value: string | null): Breakpoints {
+    if (!value) return {};
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+        ? parsed
+        : {};
+    } catch {
+      return {};
+    }
+  },
+  toAttribute(value?: Breakpoints | null): string | null {
+    if (!value || !Object.keys(value).length) return null;
+    return JSON.stringify(value);
+  },
+};
 
 @customElement("leaf-carousel")
 export class LeafCarousel extends LitElement {
   @queryAssignedElements() slides!: HTMLElement[];
   @queryAssignedElements({ slot: "prev" }) prevControls!: HTMLElement[];
   @queryAssignedElements({ slot: "next" }) nextControls!: HTMLElement[];
+  @queryAssignedElements({ slot: "play" }) playControls!: HTMLElement[];
+  @queryAssignedElements({ slot: "pagination" })
+  paginationSlotted!: HTMLElement[];
 
   @property({ converter: boolish, reflect: true }) infinite = true;
   @property({ converter: boolish, reflect: true }) snap = true;
   @property({ converter: boolish, reflect: true }) controls = false;
   @property({ converter: boolish, reflect: true }) autoHeight = true;
+  @property({ type: String, reflect: true }) orientation: Orientation =
+    "horizontal";
+  @property({ type: String, reflect: true }) align: Align = "start";
 
   @property({ type: Number }) lerpFactor = 0.22;
   @property({ type: Number }) snapStrength = 0.16;
   @property({ type: Number }) dragGain = 2.5;
+  @property({ converter: boolish }) momentum = true;
+  @property({ attribute: "free-mode", converter: boolish, reflect: true })
+  freeMode = false;
+  @property({ type: Number }) deceleration = 6;
+  @property({ type: Number }) edgeResistance = 0.55;
+
+  @property({ converter: boolish, reflect: true }) wheel = false;
+  @property({ type: String }) wheelAxis: WheelAxis = "main";
 
   @property({ type: Number }) gap = 0;
   @property({ type: Number }) preloadItems = 1;
+  /** Hides and skips slides further than `preloadItems` from the view. */
+  @property({ converter: boolish, reflect: true }) virtual = false;
 
   @property({ type: Number }) columns = 0;
   @property({ type: Number }) slideWidth = 0;
@@ -49,46 +194,144 @@ export class LeafCarousel extends LitElement {
   @property({ type: String }) controlsMode: ControlsMode = "auto";
   @property({ type: String }) buttonClass = "";
 
+  @property({ type: Number, reflect: true }) index = 0;
+
+  @property({ converter: boolish, reflect: true }) pagination = false;
+  @property({ type: String }) paginationStyle: PaginationStyle = "dot";
+  @property({ converter: boolish }) paginationGroup = false;
+
+  /** A built-in effect name (`fade`, `scale`, `coverflow`, `cards`) or a custom function. */
+  @property({ type: String }) effect: string | SlideEffect = "slide";
+
+  /** Comma-separated selectors of carousels to keep in step with this one. */
+  @property({ attribute: "sync-with" }) syncWith = "";
+
+  /** Option overrides keyed by the minimum host width (px) they apply from. */
+  @property({ converter: breakpointsConv }) breakpoints: Breakpoints = {};
+
+  @property({ converter: boolish, reflect: true }) autoplay = false;
+  @property({ type: Number }) autoplayInterval = 4000;
+  @property({ type: String }) autoplayDirection: AutoplayDirection = "forward";
+  @property({ converter: boolish }) pauseOnHover = true;
+  @property({ converter: boolish }) pauseOnFocus = true;
+
+  /** Scrolls continuously instead of stepping; needs an infinite carousel. */
+  @property({ converter: boolish, reflect: true }) marquee = false;
+  @property({ type: Number }) marqueeSpeed = 40;
+  @property({ type: String }) marqueeDirection: AutoplayDirection = "forward";
+
   @state() private current = 0;
+  @state() private userPaused = false;
+  @state() private announcement = "";
 
   private target = 0;
-  private itemWidth = 1;
+  private itemSize = 1;
   private maxScroll = 0;
   private dragging = false;
-  private horizontalDrag = false;
+  private axisLocked = false;
   private startX = 0;
   private startY = 0;
   private startTarget = 0;
+  private velocity = 0;
+  private wheeling = false;
+  private wheelTimer = 0;
+  private samples: { t: number; pos: number }[] = [];
   private lastTime = performance.now();
   private raf = 0;
   private rafRunning = false;
+  // Where the running loop started and whether it has moved since, so loops
+  // woken only by resizes or re-measures do not emit `settle`.
+  private loopFrom = 0;
+  private loopMoved = false;
   private resizeObs?: ResizeObserver;
+  private observedSlides = new Set<HTMLElement>();
+
+  // Per-slide start offsets (px) when slides differ in size; null when uniform.
+  private offsets: number[] | null = null;
+  private sizes: number[] = [];
+  private trackLength = 0;
+  private viewportSize = 0;
+  private alignOffset = 0;
+
+  private rtl = false;
+  private dirObs?: MutationObserver;
 
   private visibleItems = 1;
   private canOverflow = true;
   private lastAppliedX: number | null = null;
 
   private hasDragged = false;
+  private pendingIndex: number | null = null;
+  private activeBreakpoint: number | null = null;
+
+  private syncPeers = new Set<LeafCarousel>();
+  private syncObs?: MutationObserver;
+  private syncDriven = false;
+  private selected = -1;
+  private baseOptions: BreakpointOptions | null = null;
+  private applyingBreakpoint = false;
+
+  private autoplayRaf = 0;
+  private autoplayLast = 0;
+  private autoplayElapsed = 0;
+  private pauseReasons = new Set<AutoplayPauseReason>();
+  private marqueeFactor = 0;
+  private viewObs?: IntersectionObserver;
+  private reducedMotion?: MediaQueryList;
 
   private readonly settleEpsilon = 0.0015;
   private readonly startThreshold = 6;
+  private readonly velocityWindow = 100;
+  private readonly minVelocity = 0.05;
+  private readonly wheelEndDelay = 140;
 
+  // Last styles written per slide, so unchanged slides are not touched.
   private _tx = new WeakMap<HTMLElement, string>();
+  private _ownLabels = new WeakSet<HTMLElement>();
+  // Inline properties an effect wrote, so only those are ever cleared.
+  private _fx = new WeakMap<HTMLElement, Set<EffectProp>>();
+  // Last size read per slide; virtual slides measure as 0 while hidden.
+  private _size = new WeakMap<HTMLElement, { width: number; height: number }>();
+  private nearSlides = new Set<HTMLElement>();
 
   static styles = css`
     :host{display:block;overflow:hidden;position:relative;touch-action:pan-y;user-select:none;cursor:grab}
     .track{position:relative;width:100%;height:100%;touch-action:pan-y}
-    ::slotted(:not([slot])){position:absolute;inset:0 auto auto 0;width:var(--slide-width,100%);will-change:transform;transition:transform 0s;margin:0}
+    ::slotted(:not([slot])){position:absolute;inset-block:0 auto;inset-inline:0 auto;width:var(--slide-width,100%);will-change:transform;transition:transform 0s;margin:0}
     .controls{position:absolute;inset:0;pointer-events:none;transition:opacity .3s ease}
     :host(:hover) .controls{opacity:1}
     .control-prev,.control-next{position:absolute;top:50%;transform:translateY(-50%);display:flex;align-items:center;justify-content:center;pointer-events:none;transition:opacity .2s ease}
-    .control-prev{left:8px}
-    .control-next{right:8px}
+    .control-prev{inset-inline-start:8px}
+    .control-next{inset-inline-end:8px}
     .controls ::slotted([slot="prev"]),.controls ::slotted([slot="next"]),.controls button{pointer-events:all;display:flex;align-items:center;justify-content:center}
     button{all:unset;width:40px;height:40px;background:rgba(255,255,255,.7);border-radius:9999px;font-size:1.25rem;cursor:pointer;transition:background .2s ease,opacity .2s ease}
     button:hover{background:rgba(255,255,255,.95)}
+    .control-play{position:absolute;inset-inline-start:8px;bottom:8px;display:flex;pointer-events:none;z-index:1}
+    .control-play ::slotted([slot="play"]),.control-play button{pointer-events:all}
+    .control-play button{display:flex;align-items:center;justify-content:center;width:32px;height:32px;font-size:.875rem}
     .control-prev.off,.control-next.off{opacity:0;pointer-events:none}
     .controls button[disabled]{opacity:0;pointer-events:none}
+    .pagination{position:absolute;left:50%;bottom:8px;transform:translateX(-50%);display:flex;align-items:center;gap:4px;z-index:1}
+    .pagination-track{width:8px;height:8px;border-radius:9999px;background:var(--track-bg,var(--color-bg,#000));transition:all .2s ease-out}
+    .pagination-track:hover{background:var(--track-bg,var(--color-bg,#000))}
+    .pagination-track.pill{width:16px;height:8px}
+    .pagination-track.line{width:24px;height:4px}
+    .pagination-track.skewed{width:16px;height:6px;border-radius:0;transform:skewX(-40deg)}
+    .pagination-track.dot{box-sizing:border-box;border:1px solid #000}
+    .pagination-track.active{background:var(--track-active-bg,var(--color-success,#00ff00))}
+    .pagination-bar{position:relative;width:var(--pagination-bar-width,120px);height:4px;border-radius:9999px;overflow:hidden;background:var(--track-bg,var(--color-bg,#000))}
+    .pagination-thumb{position:absolute;inset:0 auto 0 0;width:calc(100% / var(--lc-count,1));border-radius:inherit;background:var(--track-active-bg,var(--color-success,#00ff00));transform:translateX(calc(var(--carousel-position,0) * 100%))}
+    .sr-only{position:absolute;width:1px;height:1px;padding:0;margin:-1px;overflow:hidden;clip:rect(0,0,0,0);white-space:nowrap;border:0}
+    :host(:focus-visible){outline:2px solid currentColor;outline-offset:2px}
+    :host([orientation="vertical"]),:host([orientation="vertical"]) .track{touch-action:pan-x}
+    :host([orientation="vertical"]) ::slotted(:not([slot])){width:100%;height:var(--slide-height,auto)}
+    :host([orientation="vertical"]) .control-prev,:host([orientation="vertical"]) .control-next{left:50%;right:auto;top:auto;transform:translateX(-50%) rotate(90deg)}
+    :host([orientation="vertical"]) .control-prev{top:8px}
+    :host([orientation="vertical"]) .control-next{bottom:8px}
+    :host([orientation="vertical"]) .pagination{left:auto;right:8px;top:50%;bottom:auto;transform:translateY(-50%);flex-direction:column}
+    :host([orientation="vertical"]) .pagination-bar{width:4px;height:var(--pagination-bar-width,120px)}
+    :host([data-rtl]:not([orientation="vertical"])) .pagination-thumb{left:auto;right:0}
+    :host([orientation="vertical"]) .pagination-thumb{inset:0 0 auto 0;width:auto;height:calc(100% / var(--lc-count,1));transform:translateY(calc(var(--carousel-position,0) * 100%))}
     :host(.lc-dragging) ::slotted(*){pointer-events:none}
     ::slotted(img){user-drag:none;-webkit-user-drag:none}
   `;
@@ -96,13 +339,52 @@ export class LeafCarousel extends LitElement {
   connectedCallback() {
     super.connectedCallback();
     this.addEventListener("dragstart", (e) => e.preventDefault());
+    this.addEventListener("pointerenter", this.onHostPointerEnter);
+    this.addEventListener("pointerleave", this.onHostPointerLeave);
+    this.addEventListener("focusin", this.onHostFocusIn);
+    this.addEventListener("focusout", this.onHostFocusOut);
+    this.addEventListener("keydown", this.onKeyDown);
+    this.addEventListener("click", this.onSlideClick);
+    this.resolveSyncWith();
+    this.updateDirection();
+    this.dirObs = new MutationObserver(this.updateDirection);
+    this.dirObs.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ["dir"],
+      subtree: true,
+    });
+    this.addEventListener("wheel", this.onWheel, { passive: false });
+    if (!this.hasAttribute("role")) this.setAttribute("role", "region");
+    this.setAttribute("aria-roledescription", "carousel");
+    if (
+      !this.hasAttribute("aria-label") &&
+      !this.hasAttribute("aria-labelledby")
+    ) {
+      this.setAttribute("aria-label", "Carousel");
+    }
+    if (!this.hasAttribute("tabindex")) this.setAttribute("tabindex", "0");
     window.addEventListener("blur", this.forceRelease, { passive: true });
-    document.addEventListener("visibilitychange", this.forceRelease, {
+    document.addEventListener("visibilitychange", this.onVisibilityChange, {
       passive: true,
     });
+    this.reducedMotion = window.matchMedia?.(
+      "(prefers-reduced-motion: reduce)",
+    );
+    this.reducedMotion?.addEventListener("change", this.onReducedMotionChange);
+    this.onReducedMotionChange();
+    this.setPauseReason("hidden", document.visibilityState === "hidden");
+    if (typeof IntersectionObserver !== "undefined") {
+      this.viewObs = new IntersectionObserver((entries) => {
+        const visible = entries.some((e) => e.isIntersecting);
+        this.setPauseReason("offscreen", !visible);
+      });
+      this.viewObs.observe(this);
+    }
+    this.applyBreakpoints();
     this.measure();
     this.ensureLoopRunning(true);
     this.resizeObs = new ResizeObserver(() => {
+      this.applyBreakpoints();
       this.measure();
       this.ensureLoopRunning(true);
     });
@@ -111,11 +393,522 @@ export class LeafCarousel extends LitElement {
 
   disconnectedCallback() {
     super.disconnectedCallback();
+    this.syncObs?.disconnect();
+    this.syncObs = undefined;
+    for (const peer of this.syncPeers) {
+      this.unsync(peer);
+      // Let a peer that links by selector pick this carousel up again on reattach.
+      if (peer.syncWith && !peer.syncPeers.size) peer.resolveSyncWith();
+    }
+    this.removeEventListener("click", this.onSlideClick);
+    this.dirObs?.disconnect();
+    this.removeEventListener("pointerenter", this.onHostPointerEnter);
+    this.removeEventListener("pointerleave", this.onHostPointerLeave);
+    this.removeEventListener("focusin", this.onHostFocusIn);
+    this.removeEventListener("focusout", this.onHostFocusOut);
+    this.removeEventListener("keydown", this.onKeyDown);
+    this.removeEventListener("wheel", this.onWheel);
+    clearTimeout(this.wheelTimer);
     window.removeEventListener("blur", this.forceRelease);
-    document.removeEventListener("visibilitychange", this.forceRelease);
+    document.removeEventListener("visibilitychange", this.onVisibilityChange);
+    this.reducedMotion?.removeEventListener(
+      "change",
+      this.onReducedMotionChange,
+    );
     this.stopLoop();
+    this.pauseReasons.clear();
+    this.stopAutoplay();
     this.removeWindowListeners();
     this.resizeObs?.disconnect();
+    this.observedSlides.clear();
+    this.viewObs?.disconnect();
+  }
+
+  /** Options set from outside `applyBreakpoints` become the new base values. */
+  requestUpdate(
+    name?: PropertyKey,
+    oldValue?: unknown,
+    options?: PropertyDeclaration,
+  ) {
+    if (
+      this.baseOptions &&
+      !this.applyingBreakpoint &&
+      (BREAKPOINT_KEYS as readonly PropertyKey[]).includes(name as PropertyKey)
+    ) {
+      const key = name as (typeof BREAKPOINT_KEYS)[number];
+      Object.assign(this.baseOptions, { [key]: this[key] });
+    }
+    super.requestUpdate(name, oldValue, options);
+  }
+
+  firstUpdated() {
+    if (!this.index) return;
+    this.pendingIndex = this.index;
+    this.measure();
+    this.ensureLoopRunning(true);
+  }
+
+  updated(changed: Map<PropertyKey, unknown>) {
+    if (
+      changed.has("index") &&
+      changed.get("index") !== undefined &&
+      this.index !== this.activeIndex()
+    ) {
+      this.goTo(this.index);
+    }
+    if (
+      changed.has("autoplay") ||
+      changed.has("marquee") ||
+      changed.has("userPaused")
+    ) {
+      this.updateAutoplay();
+    }
+    if (
+      changed.has("breakpoints") &&
+      changed.get("breakpoints") !== undefined &&
+      this.applyBreakpoints(true)
+    ) {
+      this.measure();
+      this.ensureLoopRunning(true);
+    }
+    if (changed.has("syncWith")) this.resolveSyncWith();
+    if (changed.has("virtual") && changed.get("virtual") !== undefined) {
+      for (const el of this.slides ?? []) {
+        this.setSlideHidden(el, this.virtual && !this.nearSlides.has(el));
+      }
+      this._tx = new WeakMap();
+      this.lastAppliedX = null;
+      this.layout();
+    }
+    if (
+      (changed.has("effect") && changed.get("effect") !== undefined) ||
+      (changed.has("align") && changed.get("align") !== undefined)
+    ) {
+      this.lastAppliedX = null;
+      this.layout();
+    }
+    if (
+      changed.has("orientation") &&
+      changed.get("orientation") !== undefined
+    ) {
+      this._tx = new WeakMap();
+      this.lastAppliedX = null;
+      this.measure();
+      this.layout();
+    }
+  }
+
+  /** Moves to the slide at `index`, taking the shortest path when wrapping. */
+  goTo(index: number, options: GoToOptions = {}) {
+    this.syncDriven = false;
+    this.moveTo(index, options);
+  }
+
+  private moveTo(index: number, { animate = true }: GoToOptions = {}) {
+    const n = this.slides?.length ?? 0;
+    if (n === 0) {
+      this.pendingIndex = index;
+      return;
+    }
+    this.pendingIndex = null;
+    if (!this.canOverflow) {
+      this.settleWithoutOverflow();
+      return;
+    }
+    this.velocity = 0;
+    this.target = this.positionForIndex(index);
+    const jumped = !animate && this.current !== this.target;
+    if (!animate) {
+      this.current = this.target;
+      this.lastAppliedX = null;
+      this.layout();
+      this.syncIndex();
+    }
+    this.ensureLoopRunning(true);
+    if (jumped) this.loopMoved = true;
+  }
+
+  next() {
+    this.stepTo(1);
+  }
+
+  prev() {
+    this.stepTo(-1);
+  }
+
+  /** Links this carousel with `other` both ways; either one then drives the other. */
+  sync(other: LeafCarousel) {
+    if (other === this || this.syncPeers.has(other)) return;
+    this.syncPeers.add(other);
+    other.syncPeers.add(this);
+    this.selected = this.index;
+    this.markSelected();
+    other.receiveSync(this.index, this);
+  }
+
+  unsync(other: LeafCarousel) {
+    this.syncPeers.delete(other);
+    other.syncPeers.delete(this);
+    if (!this.syncPeers.size) this.markSelected();
+    if (!other.syncPeers.size) other.markSelected();
+  }
+
+  /**
+   * Links the carousels `sync-with` selects. Peers that are not upgraded yet
+   * are retried once the element is defined; when none exist yet the root is
+   * watched until one is added.
+   */
+  private resolveSyncWith = () => {
+    this.syncObs?.disconnect();
+    this.syncObs = undefined;
+    const root = this.getRootNode() as Document | ShadowRoot;
+    const selectors = this.syncWith.trim();
+    if (!selectors || !this.isConnected || !root.querySelectorAll) return;
+    let found = false;
+    let pending = false;
+    for (const el of Array.from(root.querySelectorAll(selectors))) {
+      if (el === this) continue;
+      if (el instanceof LeafCarousel) {
+        this.sync(el);
+        found = true;
+      } else if (el.localName === "leaf-carousel") {
+        pending = true;
+      }
+    }
+    if (pending) {
+      customElements.whenDefined("leaf-carousel").then(this.resolveSyncWith);
+    } else if (!found) {
+      this.syncObs = new MutationObserver(this.resolveSyncWith);
+      this.syncObs.observe(root, { childList: true, subtree: true });
+    }
+  };
+
+  private broadcast(index: number) {
+    this.selected = index;
+    this.markSelected();
+    this.relaySync(index, this);
+  }
+
+  /**
+   * Passes a selection on to every peer except the sender. Peers already on
+   * `index` are skipped, which stops echoes through the linked set.
+   */
+  private relaySync(index: number, from: LeafCarousel) {
+    for (const peer of this.syncPeers) {
+      if (peer !== from && peer.selected !== index)
+        peer.receiveSync(index, this);
+    }
+  }
+
+  /**
+   * Follows a linked carousel without echoing back. A carousel showing several
+   * slides (thumbnails) only scrolls when the selection leaves its view.
+   */
+  private receiveSync(index: number, from: LeafCarousel) {
+    const n = this.slides?.length ?? 0;
+    if (n === 0) {
+      this.selected = index;
+      this.relaySync(index, from);
+      this.moveTo(index);
+      return;
+    }
+    const i = ((Math.round(index) % n) + n) % n;
+    this.selected = i;
+    this.markSelected();
+    this.relaySync(i, from);
+    this.syncDriven = true;
+    if (this.visibleItems <= 1) {
+      this.moveTo(i);
+      return;
+    }
+
+    const first = this.index;
+    const visible = Math.min(n, this.visibleItems);
+    if (this.shouldWrap()) {
+      const offset = (((i - first) % n) + n) % n;
+      if (offset < visible) return;
+      const forward = offset - (visible - 1);
+      const backward = n - offset;
+      this.moveTo(forward <= backward ? first + forward : first - backward);
+    } else if (i < first) {
+      this.moveTo(i);
+    } else if (i > first + visible - 1) {
+      this.moveTo(i - visible + 1);
+    }
+  }
+
+  private markSelected() {
+    const synced = this.syncPeers.size > 0;
+    (this.slides ?? []).forEach((el, i) => {
+      const on = synced && i === this.selected;
+      el.toggleAttribute("data-selected", on);
+      if (on) el.setAttribute("aria-current", "true");
+      else el.removeAttribute("aria-current");
+    });
+  }
+
+  private onSlideClick = (e: MouseEvent) => {
+    if (!this.syncPeers.size || e.defaultPrevented) return;
+    const slide = (this.slides ?? []).findIndex((el) =>
+      el.contains(e.target as Node),
+    );
+    if (slide < 0) return;
+    this.syncDriven = false;
+    this.broadcast(slide);
+  };
+
+  /**
+   * Starts autoplay, clearing a previous `pause()` and hover/focus holds.
+   * An explicit call also overrides `prefers-reduced-motion`.
+   */
+  play() {
+    this.pauseReasons.delete("hover");
+    this.pauseReasons.delete("focus");
+    this.pauseReasons.delete("reduced-motion");
+    this.userPaused = false;
+    if (!this.autoplay) this.autoplay = true;
+    this.updateAutoplay();
+  }
+
+  pause() {
+    this.userPaused = true;
+    this.updateAutoplay();
+  }
+
+  get paused() {
+    return !this.autoplayRaf;
+  }
+
+  /** Reduced motion keeps autoplay off until an explicit `play()`. */
+  private get playIntended() {
+    return !this.userPaused && !this.pauseReasons.has("reduced-motion");
+  }
+
+  private togglePlay = () => (this.playIntended ? this.pause() : this.play());
+
+  private setPauseReason(reason: AutoplayPauseReason, on: boolean) {
+    if (on) this.pauseReasons.add(reason);
+    else this.pauseReasons.delete(reason);
+    this.updateAutoplay();
+  }
+
+  private updateAutoplay() {
+    const unpaused =
+      this.isConnected && !this.userPaused && this.pauseReasons.size === 0;
+    const run = this.autoplay && !this.marquee && unpaused;
+    if (run && !this.autoplayRaf) {
+      this.autoplayLast = performance.now();
+      this.autoplayRaf = requestAnimationFrame(this.autoplayTick);
+    } else if (!run) {
+      this.stopAutoplay();
+    }
+    if (!this.autoplay) this.resetAutoplayTimer();
+    // The marquee eases in and out inside `loop`, which only needs waking up.
+    if (this.marquee) this.ensureLoopRunning(true);
+    const playing = run || (this.marquee && unpaused);
+    if (this.hasAttribute("data-playing") !== playing) {
+      this.toggleAttribute("data-playing", playing);
+      this.requestUpdate();
+    }
+  }
+
+  private stopAutoplay() {
+    if (!this.autoplayRaf) return;
+    cancelAnimationFrame(this.autoplayRaf);
+    this.autoplayRaf = 0;
+  }
+
+  private resetAutoplayTimer() {
+    this.autoplayElapsed = 0;
+    this.style.setProperty("--autoplay-progress", "0");
+  }
+
+  private autoplayTick = () => {
+    const now = performance.now();
+    this.autoplayElapsed += now - this.autoplayLast;
+    this.autoplayLast = now;
+
+    const interval = Math.max(1, this.autoplayInterval);
+    if (this.autoplayElapsed >= interval) {
+      this.resetAutoplayTimer();
+      this.advanceAutoplay();
+    } else {
+      const p = this.autoplayElapsed / interval;
+      this.style.setProperty("--autoplay-progress", p.toFixed(4));
+    }
+    this.autoplayRaf = requestAnimationFrame(this.autoplayTick);
+  };
+
+  private advanceAutoplay() {
+    const n = this.slides?.length ?? 0;
+    if (n === 0 || !this.canOverflow) return;
+    const dir = this.autoplayDirection === "backward" ? -1 : 1;
+    if (!this.shouldWrap()) {
+      const i = this.activeIndex();
+      if (dir > 0 && i >= n - 1) return this.goTo(0);
+      if (dir < 0 && i <= 0) return this.goTo(n - 1);
+    }
+    this.stepTo(dir);
+  }
+
+  private onHostPointerEnter = (e: PointerEvent) => {
+    if (e.pointerType === "mouse" && this.pauseOnHover) {
+      this.setPauseReason("hover", true);
+    }
+  };
+
+  private onHostPointerLeave = () => this.setPauseReason("hover", false);
+
+  /** Only keyboard focus holds autoplay; a click or drag focuses the host too. */
+  private onHostFocusIn = (e: FocusEvent) => {
+    const t = e.composedPath()[0] as Element | undefined;
+    if (this.pauseOnFocus && t?.matches?.(":focus-visible")) {
+      this.setPauseReason("focus", true);
+    }
+  };
+
+  private onHostFocusOut = (e: FocusEvent) => {
+    const next = e.relatedTarget as Node | null;
+    if (next && (this.contains(next) || this.shadowRoot?.contains(next))) {
+      return;
+    }
+    this.setPauseReason("focus", false);
+  };
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    const t = e.composedPath()[0] as HTMLElement | undefined;
+    if (t?.closest?.("input, textarea, select, [contenteditable]")) return;
+    const n = this.slides?.length ?? 0;
+    if (n === 0) return;
+
+    const vertical = this.isVertical();
+    const forward = this.rtl ? "ArrowLeft" : "ArrowRight";
+    const backward = this.rtl ? "ArrowRight" : "ArrowLeft";
+    const nextKey = vertical ? "ArrowDown" : forward;
+    const prevKey = vertical ? "ArrowUp" : backward;
+
+    let handled = true;
+    if (e.key === nextKey) this.goToNext();
+    else if (e.key === prevKey) this.goToPrev();
+    else if (e.key === "Home") this.goTo(0);
+    else if (e.key === "End") this.goTo(n - 1);
+    else handled = false;
+
+    if (handled) {
+      e.preventDefault();
+      this.resetAutoplayTimer();
+    }
+  };
+
+  private onWheel = (e: WheelEvent) => {
+    if (!this.wheel || !this.canOverflow || this.dragging) return;
+
+    const scale =
+      e.deltaMode === 1
+        ? 16
+        : e.deltaMode === 2
+          ? (this.isVertical() ? this.clientHeight : this.clientWidth) || 1
+          : 1;
+    const vertical = this.isVertical();
+    const main = (vertical ? e.deltaY : e.deltaX * this.dirSign()) * scale;
+    const cross = (vertical ? e.deltaX : e.deltaY) * scale;
+
+    let delta = main;
+    if (this.wheelAxis === "both") {
+      if (Math.abs(cross) > Math.abs(main)) delta = cross;
+    } else if (Math.abs(main) <= Math.abs(cross)) {
+      // Mostly along the other axis: leave it to the page scroll.
+      return;
+    }
+    if (delta === 0) return;
+    e.preventDefault();
+
+    if (!this.wheeling) {
+      this.wheeling = true;
+      this.syncDriven = false;
+      this.velocity = 0;
+      this.setPauseReason("wheel", true);
+    }
+    const sign = this.shouldWrap() ? 1 : -1;
+    this.target += (sign * delta) / Math.max(1, this.itemSize);
+    this.clampTarget();
+    this.ensureLoopRunning();
+
+    // Trackpads keep sending a decaying tail after the fingers lift, so the
+    // gesture only ends once the events stop.
+    clearTimeout(this.wheelTimer);
+    this.wheelTimer = window.setTimeout(this.endWheel, this.wheelEndDelay);
+  };
+
+  private endWheel = () => {
+    this.wheeling = false;
+    if (this.snap && !this.freeMode) this.target = Math.round(this.target);
+    this.clampTarget();
+    this.ensureLoopRunning(true);
+    this.resetAutoplayTimer();
+    this.setPauseReason("wheel", false);
+  };
+
+  private onVisibilityChange = () => {
+    this.forceRelease();
+    this.setPauseReason("hidden", document.visibilityState === "hidden");
+  };
+
+  private onReducedMotionChange = () => {
+    this.setPauseReason("reduced-motion", !!this.reducedMotion?.matches);
+  };
+
+  /**
+   * Picks the largest breakpoint not wider than the host and applies its
+   * overrides on top of the options the carousel was configured with.
+   */
+  private applyBreakpoints(force = false) {
+    const entries = Object.entries(this.breakpoints ?? {})
+      .map(([min, opts]) => [Number(min), opts] as const)
+      .filter(([min]) => Number.isFinite(min))
+      .sort((a, b) => a[0] - b[0]);
+    if (!entries.length && !this.baseOptions) return false;
+
+    const width = this.clientWidth;
+    let match: number | null = null;
+    let overrides: BreakpointOptions = {};
+    for (const [min, opts] of entries) {
+      if (width >= min) {
+        match = min;
+        overrides = opts ?? {};
+      }
+    }
+    if (!force && match === this.activeBreakpoint) return false;
+
+    if (!this.baseOptions) {
+      this.baseOptions = Object.fromEntries(
+        BREAKPOINT_KEYS.map((key) => [key, this[key]]),
+      ) as BreakpointOptions;
+    }
+    const next: BreakpointOptions = { ...this.baseOptions };
+    for (const key of BREAKPOINT_KEYS) {
+      if (key in overrides) Object.assign(next, { [key]: overrides[key] });
+    }
+
+    // Keep the active slide: `infinite` flips the position convention.
+    this.pendingIndex = this.index;
+    this.applyingBreakpoint = true;
+    try {
+      Object.assign(this, next);
+    } finally {
+      this.applyingBreakpoint = false;
+    }
+
+    const previous = this.activeBreakpoint;
+    this.activeBreakpoint = match;
+    if (match !== previous) {
+      this.emit("breakpoint-change", {
+        breakpoint: match,
+        previous,
+        options: overrides,
+      });
+    }
+    return true;
   }
 
   private shouldShowControls() {
@@ -151,6 +944,94 @@ export class LeafCarousel extends LitElement {
     };
     this.prevControls && wire(this.prevControls, this.goToPrev);
     this.nextControls && wire(this.nextControls, this.goToNext);
+    this.playControls && wire(this.playControls, this.togglePlay);
+  }
+
+  private onPaginationSlotChange = () => {
+    for (const el of this.paginationTargets()) {
+      el.onclick = (e) => {
+        e.preventDefault();
+        this.resetAutoplayTimer();
+        this.goTo(Number(el.dataset.slideTo) || 0);
+      };
+    }
+    this.syncPaginationSlot();
+  };
+
+  private paginationTargets() {
+    const targets: HTMLElement[] = [];
+    for (const el of this.paginationSlotted ?? []) {
+      if (el.hasAttribute("data-slide-to")) targets.push(el);
+      targets.push(
+        ...Array.from(el.querySelectorAll<HTMLElement>("[data-slide-to]")),
+      );
+    }
+    return targets;
+  }
+
+  private syncPaginationSlot() {
+    const per = this.slidesPerPage();
+    const page = Math.floor(this.index / per);
+    for (const el of this.paginationTargets()) {
+      const active =
+        Math.floor((Number(el.dataset.slideTo) || 0) / per) === page;
+      el.toggleAttribute("data-active", active);
+      if (active) el.setAttribute("aria-current", "true");
+      else el.removeAttribute("aria-current");
+    }
+  }
+
+  private slidesPerPage() {
+    return this.paginationGroup && this.columns > 1
+      ? Math.floor(this.columns)
+      : 1;
+  }
+
+  private renderPagination() {
+    const n = this.slides?.length ?? 0;
+    const per = this.slidesPerPage();
+    const pages = Math.ceil(n / per);
+    const activePage = Math.floor(this.index / per);
+
+    let content: unknown = null;
+    if (this.paginationStyle === "scrollbar") {
+      content = html`
+        <div class="pagination-bar" part="pagination-bar" style="--lc-count:${Math.max(1, n)}">
+          <span class="pagination-thumb" part="pagination-thumb"></span>
+        </div>
+      `;
+    } else if (pages > 1) {
+      content = Array.from(
+        { length: pages },
+        (_, p) => html`
+          <button
+            type="button"
+            part="pagination-track"
+            class="pagination-track ${this.paginationStyle} ${p === activePage ? "active" : ""}"
+            aria-label=${per > 1 ? `Go to page ${p + 1}` : `Go to slide ${p + 1}`}
+            aria-current=${p === activePage ? "true" : "false"}
+            @click=${() => {
+              this.resetAutoplayTimer();
+              this.goTo(p * per);
+            }}
+          ></button>
+        `,
+      );
+    }
+
+    return html`
+      <div class="pagination" part="pagination">
+        <slot name="pagination" @slotchange=${this.onPaginationSlotChange}>
+          ${content}
+        </slot>
+      </div>
+    `;
+  }
+
+  private emit(name: string, detail: Record<string, unknown> = {}) {
+    this.dispatchEvent(
+      new CustomEvent(name, { detail, bubbles: true, composed: true }),
+    );
   }
 
   render() {
@@ -161,8 +1042,14 @@ export class LeafCarousel extends LitElement {
 
     this.toggleAttribute("data-at-start", atStart);
     this.toggleAttribute("data-at-end", atEnd);
+    // The play toggle renders without `controls` too, so motion can always be stopped.
+    // It follows the user's intent, not short-lived hover/focus holds.
+    const playing = this.playIntended;
 
     return html`
+      <div class="sr-only" aria-live=${this.autoplayRaf || this.marquee ? "off" : "polite"} aria-atomic="true">
+        ${this.announcement}
+      </div>
       <div class="track"
         @pointerdown=${this.onPointerDown}
         @pointermove=${this.onPointerMove}
@@ -171,6 +1058,22 @@ export class LeafCarousel extends LitElement {
       >
         <slot @slotchange=${this.measure}></slot>
       </div>
+      ${this.pagination ? this.renderPagination() : null}
+      ${
+        this.autoplay || this.marquee
+          ? html`
+        <div class="control-play">
+          <slot name="play" @slotchange=${this.onControlsSlotChange}>
+            <button
+              class=${this.buttonClass || "default-btn"}
+              @click=${this.togglePlay}
+              aria-label=${playing ? "Pause autoplay" : "Start autoplay"}
+            >${playing ? "❚❚" : "►"}</button>
+          </slot>
+        </div>
+      `
+          : null
+      }
       ${
         showControls
           ? html`
@@ -183,7 +1086,7 @@ export class LeafCarousel extends LitElement {
                 aria-label="Previous"
                 aria-disabled=${atStart}
                 ?disabled=${atStart}
-              >‹</button>
+              >${this.rtl ? "›" : "‹"}</button>
             </slot>
           </div>
           <div class="control-next ${atEnd ? "off" : ""}">
@@ -194,7 +1097,7 @@ export class LeafCarousel extends LitElement {
                 aria-label="Next"
                 aria-disabled=${atEnd}
                 ?disabled=${atEnd}
-              >›</button>
+              >${this.rtl ? "‹" : "›"}</button>
             </slot>
           </div>
         </div>
@@ -206,40 +1109,74 @@ export class LeafCarousel extends LitElement {
 
   private measure = () => {
     const slides = this.slides ?? [];
-    const hostW = this.clientWidth || 1;
+    const vertical = this.isVertical();
+    const sizeProp = vertical ? "--slide-height" : "--slide-width";
+    this.style.removeProperty(vertical ? "--slide-width" : "--slide-height");
+    let hostSize = (vertical ? this.clientHeight : this.clientWidth) || 1;
     if (!slides.length) {
-      this.itemWidth = hostW;
+      this.itemSize = hostSize;
       this.visibleItems = 1;
       this.canOverflow = false;
       this.maxScroll = 0;
       return;
     }
 
-    if (this.columns > 0) {
+    this.offsets = null;
+    if (vertical && this.autoHeight) {
+      // Rows keep their natural height and the host grows to fit `columns` of them.
+      const rows = this.columns > 0 ? this.columns : 1;
+      this.style.removeProperty(sizeProp);
+      const rowH = this.maxSlideSize(this.measuredSlides(), "height");
+      this.itemSize = rowH + this.gap;
+      this.visibleItems = rows;
+      hostSize = rows * rowH + Math.max(0, rows - 1) * this.gap;
+      if (hostSize > 0) this.style.height = `${Math.ceil(hostSize)}px`;
+    } else if (this.columns > 0) {
       const totalGap = Math.max(0, this.columns - 1) * this.gap;
-      const slideWidthPx = (hostW - totalGap) / this.columns;
-      this.style.setProperty("--slide-width", `${slideWidthPx}px`);
-      this.itemWidth = slideWidthPx + this.gap;
+      const slideSizePx = (hostSize - totalGap) / this.columns;
+      this.style.setProperty(sizeProp, `${slideSizePx}px`);
+      this.itemSize = slideSizePx + this.gap;
       this.visibleItems = this.columns;
     } else if (this.slideWidth > 0) {
       const w = this.slideWidth;
-      this.style.setProperty("--slide-width", `${w}px`);
-      this.itemWidth = w + this.gap;
-      this.visibleItems = Math.max(1, Math.floor(hostW / Math.max(1, w)));
+      this.style.setProperty(sizeProp, `${w}px`);
+      this.itemSize = w + this.gap;
+      this.visibleItems = Math.max(1, Math.floor(hostSize / Math.max(1, w)));
     } else {
-      const rect = slides[0].getBoundingClientRect();
-      this.style.removeProperty("--slide-width");
-      this.itemWidth = rect.width + this.gap;
-      this.visibleItems = Math.max(
-        1,
-        Math.floor(hostW / Math.max(1, rect.width)),
+      this.style.removeProperty(sizeProp);
+      const sizes = slides.map(
+        (el) => this.slideSize(el)[vertical ? "height" : "width"],
       );
+      if (sizes.every((v) => Math.abs(v - sizes[0]) < 0.5)) {
+        this.itemSize = sizes[0] + this.gap;
+      } else {
+        let acc = 0;
+        this.offsets = sizes.map((v) => {
+          const o = acc;
+          acc += v + this.gap;
+          return o;
+        });
+        this.sizes = sizes;
+        this.trackLength = acc;
+        this.itemSize = acc / sizes.length;
+      }
+      const size = this.itemSize - this.gap;
+      this.visibleItems = Math.max(1, Math.floor(hostSize / Math.max(1, size)));
+    }
+
+    this.lastAppliedX = null;
+    this.viewportSize = hostSize;
+    this.observeSlides(slides);
+    if (this.virtual) {
+      for (const el of slides)
+        this.setSlideHidden(el, !this.nearSlides.has(el));
     }
 
-    const actualItemW = this.itemWidth - this.gap;
-    const totalW =
-      slides.length * actualItemW + Math.max(0, slides.length - 1) * this.gap;
-    this.canOverflow = totalW > hostW + 0.5;
+    const actualItemSize = this.itemSize - this.gap;
+    const totalSize =
+      slides.length * actualItemSize +
+      Math.max(0, slides.length - 1) * this.gap;
+    this.canOverflow = totalSize > hostSize + 0.5;
 
     this.maxScroll = -Math.max(0, slides.length - 1);
 
@@ -248,22 +1185,189 @@ export class LeafCarousel extends LitElement {
       this.current = Math.min(0, Math.max(this.maxScroll, this.current));
     }
 
-    if (this.autoHeight) {
-      let maxH = 0;
-      for (const el of slides) {
-        const h = el.getBoundingClientRect().height;
-        if (h > maxH) maxH = h;
+    if (this.pendingIndex !== null) {
+      const i = this.pendingIndex;
+      this.pendingIndex = null;
+      if (this.canOverflow) {
+        this.target = this.current = this.positionForIndex(i);
+        this.lastAppliedX = null;
+        this.syncIndex();
+      } else {
+        this.settleWithoutOverflow();
       }
-      if (maxH > 0) this.style.height = `${Math.ceil(maxH)}px`;
+    }
+
+    this.updateSlideSemantics();
+
+    if (vertical) {
+      if (!this.autoHeight) this.style.removeProperty("height");
+    } else if (this.autoHeight) {
+      this.applyAutoHeight();
     } else {
       this.style.removeProperty("height");
     }
   };
 
+  private observeSlides(slides: HTMLElement[]) {
+    if (!this.resizeObs) return;
+    const live = new Set(slides);
+    for (const el of this.observedSlides) {
+      if (!live.has(el)) {
+        this.resizeObs.unobserve(el);
+        this.observedSlides.delete(el);
+      }
+    }
+    for (const el of slides) {
+      if (this.observedSlides.has(el)) continue;
+      this.resizeObs.observe(el);
+      this.observedSlides.add(el);
+    }
+  }
+
+  /** Maps a fractional slide position to its px offset along the track. */
+  private offsetAt(pos: number) {
+    const offsets = this.offsets;
+    if (!offsets) return pos * this.itemSize;
+    const n = offsets.length;
+    const cycle = Math.floor(pos / n);
+    const local = pos - cycle * n;
+    const i = Math.min(n - 1, Math.floor(local));
+    const frac = local - i;
+    return (
+      cycle * this.trackLength + offsets[i] + frac * (this.sizes[i] + this.gap)
+    );
+  }
+
+  private maxSlideSize(slides: HTMLElement[], dim: "width" | "height") {
+    let max = 0;
+    for (const el of slides) {
+      const v = el.getBoundingClientRect()[dim];
+      if (v > max) max = v;
+    }
+    return max;
+  }
+
+  static registerEffect(name: string, effect: SlideEffect) {
+    slideEffects[name] = effect;
+  }
+
+  private updateDirection = () => {
+    const rtl = getComputedStyle(this).direction === "rtl";
+    if (rtl === this.rtl) return;
+    this.rtl = rtl;
+    this.toggleAttribute("data-rtl", rtl);
+    this._tx = new WeakMap();
+    this.lastAppliedX = null;
+    this.layout();
+    this.requestUpdate();
+  };
+
+  /** -1 when a horizontal carousel runs right-to-left. */
+  private dirSign(): 1 | -1 {
+    return this.rtl && !this.isVertical() ? -1 : 1;
+  }
+
+  private isVertical() {
+    return this.orientation === "vertical";
+  }
+
   private shouldWrap() {
     return this.infinite && this.canOverflow;
   }
 
+  /**
+   * `target`/`current` run in opposite directions per mode: wrapped positions
+   * grow with the slide index, clamped ones go from 0 down to `maxScroll`.
+   */
+  private indexForPosition(pos: number) {
+    const n = this.slides?.length ?? 0;
+    if (n === 0) return 0;
+    const r = Math.round(pos);
+    if (this.shouldWrap()) return ((r % n) + n) % n;
+    return Math.min(n - 1, Math.max(0, -r));
+  }
+
+  private positionForIndex(index: number) {
+    const n = this.slides?.length ?? 0;
+    if (n === 0) return 0;
+    const i = Math.round(index);
+    if (this.shouldWrap()) {
+      const base = Math.round(this.target);
+      let delta = (((i - base) % n) + n) % n;
+      if (delta > n / 2) delta -= n;
+      return base + delta;
+    }
+    return -Math.min(n - 1, Math.max(0, i));
+  }
+
+  private activeIndex() {
+    return this.indexForPosition(this.target);
+  }
+
+  /**
+   * With nothing to scroll every slide is shown and the first is active, so a
+   * requested index is clamped back without a `slide-change`.
+   */
+  private settleWithoutOverflow() {
+    this.velocity = 0;
+    this.target = this.current = 0;
+    this.lastAppliedX = null;
+    const i = this.activeIndex();
+    if (this.index !== i) {
+      this.index = i;
+      this.updateSlideSemantics();
+    }
+  }
+
+  private syncIndex() {
+    const next = this.activeIndex();
+    if (next === this.index) return;
+    const previousIndex = this.index;
+    this.index = next;
+    this.syncPaginationSlot();
+    this.updateSlideSemantics();
+    this.announcement = `Slide ${next + 1} of ${this.slides.length}`;
+    if (this.syncPeers.size && !this.syncDriven) this.broadcast(next);
+    this.emit("slide-change", { index: next, previousIndex });
+  }
+
+  /** Labels each slide "n of m" and makes slides outside the view `inert`. */
+  private updateSlideSemantics() {
+    const slides = this.slides ?? [];
+    const n = slides.length;
+    const wrap = this.shouldWrap();
+
+    slides.forEach((el, i) => {
+      el.setAttribute("role", "group");
+      el.setAttribute("aria-roledescription", "slide");
+      if (!el.hasAttribute("aria-label") || this._ownLabels.has(el)) {
+        el.setAttribute("aria-label", `${i + 1} of ${n}`);
+        this._ownLabels.add(el);
+      }
+      el.inert = this.canOverflow && !this.overlapsView(i, wrap);
+      el.toggleAttribute("active", i === this.index);
+    });
+  }
+
+  /**
+   * Whether any part of slide `i` is inside the viewport once the carousel
+   * settles on the active index. Partly shown (peeking) slides count.
+   */
+  private overlapsView(i: number, wrap: boolean) {
+    const n = this.slides?.length ?? 0;
+    const active = Math.max(0, Math.min(n - 1, this.index));
+    const offsets = this.offsets;
+    const size = offsets ? this.sizes[i] : this.itemSize - this.gap;
+    const cycle = offsets ? this.trackLength : n * this.itemSize;
+    let start = offsets
+      ? offsets[i] - offsets[active]
+      : (i - active) * this.itemSize;
+    if (wrap) start = ((start % cycle) + cycle) % cycle;
+    start += this.computeAlignOffset(active);
+    const within = (x: number) => x < this.viewportSize - 0.5 && x + size > 0.5;
+    return within(start) || (wrap && within(start - cycle));
+  }
+
   private addWindowListeners() {
     window.addEventListener("pointermove", this.boundMove, { passive: false });
     window.addEventListener("pointerup", this.boundUp, { passive: true });
@@ -280,13 +1384,17 @@ export class LeafCarousel extends LitElement {
 
   private onPointerDown = (e: PointerEvent) => {
     if (!this.canOverflow) return;
+    this.syncDriven = false;
     this.dragging = true;
-    this.horizontalDrag = false;
+    this.axisLocked = false;
     this.hasDragged = false;
     this.startX = e.clientX;
     this.startY = e.clientY;
     this.startTarget = this.target;
+    this.velocity = 0;
+    this.samples = [{ t: performance.now(), pos: this.target }];
     this.style.cursor = "grabbing";
+    this.setPauseReason("drag", true);
     this.addWindowListeners();
     this.ensureLoopRunning(true);
     this.classList.add("lc-dragging");
@@ -297,14 +1405,18 @@ export class LeafCarousel extends LitElement {
 
     const dx = e.clientX - this.startX;
     const dy = e.clientY - this.startY;
+    const vertical = this.isVertical();
+    const main = vertical ? dy : dx * this.dirSign();
+    const cross = vertical ? dx : dy;
 
-    if (!this.horizontalDrag) {
+    if (!this.axisLocked) {
       if (
-        Math.abs(dx) > this.startThreshold ||
-        Math.abs(dy) > this.startThreshold
+        Math.abs(main) > this.startThreshold ||
+        Math.abs(cross) > this.startThreshold
       ) {
-        if (Math.abs(dx) > Math.abs(dy)) {
-          this.horizontalDrag = true;
+        if (Math.abs(main) > Math.abs(cross)) {
+          this.axisLocked = true;
+          this.emit("drag-start", { index: this.index });
         } else {
           this.forceRelease();
           return;
@@ -314,24 +1426,79 @@ export class LeafCarousel extends LitElement {
       }
     }
 
-    if (!this.hasDragged && Math.abs(dx) > 3) this.hasDragged = true;
+    if (!this.hasDragged && Math.abs(main) > 3) this.hasDragged = true;
 
-    const items = (dx / Math.max(1, this.itemWidth)) * this.dragGain;
+    const items = (main / Math.max(1, this.itemSize)) * this.dragGain;
     const sign = this.shouldWrap() ? -1 : 1;
-    this.target = this.startTarget + sign * items;
+    const raw = this.startTarget + sign * items;
+    this.target = this.resistEdges(raw);
+    this.trackVelocity(raw);
+    e.preventDefault();
+  }
 
-    if (!this.shouldWrap()) {
-      if (this.target > 0) this.target = 0;
-      else if (this.target < this.maxScroll) this.target = this.maxScroll;
+  private trackVelocity(pos: number) {
+    const t = performance.now();
+    this.samples.push({ t, pos });
+    while (
+      this.samples.length > 2 &&
+      t - this.samples[0].t > this.velocityWindow
+    ) {
+      this.samples.shift();
     }
-    e.preventDefault();
+  }
+
+  /** Release velocity in items per second, 0 if the pointer came to rest. */
+  private releaseVelocity() {
+    const n = this.samples.length;
+    if (n < 2) return 0;
+    const first = this.samples[0];
+    const last = this.samples[n - 1];
+    if (performance.now() - last.t > this.velocityWindow / 2) return 0;
+    const dt = (last.t - first.t) / 1000;
+    return dt > 0 ? (last.pos - first.pos) / dt : 0;
+  }
+
+  /** Rubber-bands positions past the clamped edges; at most one item of over-scroll. */
+  private resistEdges(pos: number) {
+    if (this.shouldWrap()) return pos;
+    const over =
+      pos > 0 ? pos : pos < this.maxScroll ? pos - this.maxScroll : 0;
+    if (over === 0) return pos;
+    const edge = over > 0 ? 0 : this.maxScroll;
+    if (this.edgeResistance <= 0) return edge;
+    const c = this.edgeResistance;
+    const damped = 1 - 1 / (Math.abs(over) * c + 1);
+    return edge + Math.sign(over) * damped;
+  }
+
+  private clampTarget() {
+    if (this.shouldWrap()) return;
+    if (this.target > 0) this.target = 0;
+    else if (this.target < this.maxScroll) this.target = this.maxScroll;
+  }
+
+  private release(velocity: number) {
+    this.samples = [];
+    if (this.marquee) {
+      // Let the ticker pick up from where it was dropped.
+      this.marqueeFactor = 0;
+    } else if (this.freeMode) {
+      this.velocity = this.momentum ? velocity : 0;
+    } else if (this.snap) {
+      const projected = this.momentum
+        ? this.target + velocity / Math.max(0.1, this.deceleration)
+        : this.target;
+      this.target = Math.round(projected);
+    }
+    this.clampTarget();
   }
 
   private onPointerUp() {
     if (!this.dragging) return;
 
+    const wasDragging = this.axisLocked;
     this.dragging = false;
-    this.horizontalDrag = false;
+    this.axisLocked = false;
     this.style.cursor = "grab";
     this.removeWindowListeners();
 
@@ -347,16 +1514,13 @@ export class LeafCarousel extends LitElement {
       });
     }
 
-    if (this.snap) {
-      this.target = Math.round(this.target);
-      if (!this.shouldWrap()) {
-        if (this.target > 0) this.target = 0;
-        else if (this.target < this.maxScroll) this.target = this.maxScroll;
-      }
-    }
+    this.release(this.releaseVelocity());
     this.ensureLoopRunning();
     this.classList.remove("lc-dragging");
     this.hasDragged = false;
+    this.resetAutoplayTimer();
+    this.setPauseReason("drag", false);
+    if (wasDragging) this.emit("drag-end", { index: this.activeIndex() });
   }
 
   private onPointerCancel() {
@@ -365,42 +1529,46 @@ export class LeafCarousel extends LitElement {
 
   private forceRelease = () => {
     if (!this.dragging) return;
+    const wasDragging = this.axisLocked;
     this.dragging = false;
-    this.horizontalDrag = false;
+    this.axisLocked = false;
     this.style.cursor = "grab";
     this.removeWindowListeners();
-    if (this.snap) {
-      this.target = Math.round(this.target);
-      if (!this.shouldWrap()) {
-        if (this.target > 0) this.target = 0;
-        else if (this.target < this.maxScroll) this.target = this.maxScroll;
-      }
-    }
+    this.release(0);
     this.ensureLoopRunning();
     this.classList.remove("lc-dragging");
     this.hasDragged = false;
+    this.resetAutoplayTimer();
+    this.setPauseReason("drag", false);
+    if (wasDragging) this.emit("drag-end", { index: this.activeIndex() });
   };
 
   private stepTo(delta: number) {
     if (!this.canOverflow) return;
     const base = Math.round(this.target);
     const modeDir = this.shouldWrap() ? 1 : -1;
-    let next = base + modeDir * delta;
-    if (!this.shouldWrap()) {
-      if (next > 0) next = 0;
-      else if (next < this.maxScroll) next = this.maxScroll;
-    }
-    this.target = next;
+    this.syncDriven = false;
+    this.velocity = 0;
+    this.target = base + modeDir * delta;
+    this.clampTarget();
     this.ensureLoopRunning(true);
   }
 
-  private goToNext = () => this.stepTo(1);
-  private goToPrev = () => this.stepTo(-1);
+  private goToNext = () => {
+    this.resetAutoplayTimer();
+    this.next();
+  };
+  private goToPrev = () => {
+    this.resetAutoplayTimer();
+    this.prev();
+  };
 
   private ensureLoopRunning(resetLastTime = false) {
     if (resetLastTime) this.lastTime = performance.now();
     if (!this.rafRunning) {
       this.rafRunning = true;
+      this.loopFrom = this.current;
+      this.loopMoved = false;
       this.raf = requestAnimationFrame(this.loop);
     }
   }
@@ -419,28 +1587,62 @@ export class LeafCarousel extends LitElement {
     const dt = Math.max(0, (now - this.lastTime) / 1000);
     this.lastTime = now;
 
-    if (this.snap && !this.dragging) {
+    const interacting = this.dragging || this.wheeling;
+    if (this.velocity && !interacting) {
+      this.target += this.velocity * dt;
+      this.velocity *= Math.exp(-this.deceleration * dt);
+      if (Math.abs(this.velocity) < this.minVelocity) this.velocity = 0;
+      const before = this.target;
+      this.clampTarget();
+      if (this.target !== before) this.velocity = 0;
+    }
+
+    const marquee = this.marquee && this.shouldWrap();
+    if (marquee) {
+      const running =
+        !interacting && !this.userPaused && this.pauseReasons.size === 0;
+      this.marqueeFactor = damp(this.marqueeFactor, running ? 1 : 0, 4, dt);
+      if (!running && this.marqueeFactor < 0.001) this.marqueeFactor = 0;
+      if (!interacting && this.marqueeFactor) {
+        const dir = this.marqueeDirection === "backward" ? -1 : 1;
+        const step =
+          (dir * this.marqueeSpeed * this.marqueeFactor * dt) /
+          Math.max(1, this.itemSize);
+        this.target += step;
+        this.current += step;
+      }
+    }
+
+    const snapping = this.snap && !this.freeMode && !marquee;
+    if (snapping && !interacting) {
       const snapT = Math.round(this.target);
       this.target += (snapT - this.target) * this.snapStrength;
     }
 
     this.current = damp(this.current, this.target, 1 / this.lerpFactor, dt);
+    if (Math.abs(this.current - this.loopFrom) >= this.settleEpsilon)
+      this.loopMoved = true;
 
     const settled =
-      !this.dragging &&
+      !interacting &&
+      !this.velocity &&
+      !(marquee && this.marqueeFactor) &&
       Math.abs(this.current - this.target) < this.settleEpsilon;
     if (settled) {
-      if (this.snap) {
+      if (snapping) {
         const s = Math.round(this.target);
         this.current = s;
         this.target = s;
       }
       this.layout();
+      this.syncIndex();
       this.stopLoop();
+      if (this.loopMoved) this.emit("settle", { index: this.index });
       return;
     }
 
     this.layout();
+    this.syncIndex();
   };
 
   private layout() {
@@ -448,7 +1650,19 @@ export class LeafCarousel extends LitElement {
     if (n === 0) return;
 
     const wrap = this.shouldWrap();
-    const w = this.itemWidth;
+    this.alignOffset = this.computeAlignOffset(
+      wrap ? this.current : -this.current,
+    );
+    const near = this.updateWindow(n, wrap);
+    // Virtual carousels only place the slides in the window.
+    const order = () =>
+      this.virtual && near ? near : Array.from({ length: n }, (_, i) => i);
+
+    if (this.pagination && this.paginationStyle === "scrollbar") {
+      const pos = wrap ? ((this.current % n) + n) % n : -this.current;
+      const signed = pos * this.dirSign();
+      this.style.setProperty("--carousel-position", signed.toFixed(4));
+    }
 
     if (wrap) {
       const desiredPre = this.preloadItems;
@@ -457,47 +1671,213 @@ export class LeafCarousel extends LitElement {
         n >= need
           ? desiredPre
           : Math.max(0, Math.floor((n - this.visibleItems) / 2));
-      const L = -effectivePre;
+      const L = -effectivePre - Math.ceil(this.alignLead());
       const R = this.visibleItems + effectivePre;
 
-      for (let i = 0; i < n; i++) {
+      if (this.offsets) {
+        const T = this.trackLength;
+        const viewport = this.offsetAt(this.current);
+        const lead = effectivePre * this.itemSize + this.alignOffset;
+        for (const i of order()) {
+          const raw = this.offsets[i] - viewport + lead;
+          const x = (((raw % T) + T) % T) - lead;
+          const rel = x / (this.sizes[i] + this.gap);
+          this.placeSlide(this.slides[i], i, rel, n, x);
+        }
+        return;
+      }
+
+      for (const i of order()) {
         const el = this.slides[i];
         const raw = i - this.current;
         const k = Math.floor((raw - L) / n);
         let rel = raw - k * n;
         if (rel >= R) rel -= n;
         else if (rel < L) rel += n;
-        const x = rel * w;
-        const tx = `translateX(${x}px)`;
-        if (this._tx.get(el) !== tx) {
-          el.style.transform = tx;
-          this._tx.set(el, tx);
-        }
+        this.placeSlide(el, i, rel, n);
       }
     } else {
-      const clamped = Math.min(0, Math.max(this.maxScroll, this.current));
-      const offsetPx = -clamped * w;
+      const clamped =
+        this.edgeResistance > 0
+          ? this.current
+          : Math.min(0, Math.max(this.maxScroll, this.current));
+      const offsetPx = this.offsetAt(-clamped);
       if (this.lastAppliedX === offsetPx) return;
       this.lastAppliedX = offsetPx;
-      for (let i = 0; i < n; i++) {
-        const el = this.slides[i];
-        const x = i * w - offsetPx;
-        const tx = `translateX(${x}px)`;
-        if (this._tx.get(el) !== tx) {
-          el.style.transform = tx;
-          this._tx.set(el, tx);
+      const offsets = this.offsets;
+      for (const i of order()) {
+        if (offsets) {
+          const x = offsets[i] - offsetPx;
+          const rel = x / (this.sizes[i] + this.gap);
+          this.placeSlide(this.slides[i], i, rel, n, x);
+        } else {
+          this.placeSlide(this.slides[i], i, i + clamped, n);
         }
       }
     }
+  }
+
+  /**
+   * Tracks the slides within `preloadItems` of the view. Slides entering that
+   * window get their deferred sources and a `slide-visible` event; with
+   * `virtual` the rest are hidden. Returns the window's indices, or null when
+   * it covers every slide.
+   */
+  private updateWindow(n: number, wrap: boolean) {
+    const pre = Math.max(0, this.preloadItems);
+    const base = wrap ? this.current : -this.current;
+    const lead = Math.ceil(this.alignLead());
+    const first = Math.floor(base) - pre - lead;
+    const span =
+      Math.ceil(base) + Math.ceil(this.visibleItems) - 1 + pre - first;
+    const all = span + 1 >= n;
+
+    const indices: number[] = [];
+    if (!all) {
+      for (let k = 0; k <= span; k++) {
+        const i = wrap ? (((first + k) % n) + n) % n : first + k;
+        if (i >= 0 && i < n) indices.push(i);
+      }
+    }
+    const inside = all ? null : new Set(indices.map((i) => this.slides[i]));
+    for (const el of this.nearSlides) {
+      if (el.isConnected && (!inside || inside.has(el))) continue;
+      this.nearSlides.delete(el);
+      if (this.virtual) this.setSlideHidden(el, true);
+    }
+
+    let entered = false;
+    const enter = (i: number) => {
+      const el = this.slides[i];
+      if (this.nearSlides.has(el)) return;
+      this.nearSlides.add(el);
+      entered = true;
+      this.promoteSources(el);
+      if (this.virtual) this.setSlideHidden(el, false);
+      this.emit("slide-visible", { index: i, slide: el });
+    };
+    if (!all) for (const i of indices) enter(i);
+    else if (this.nearSlides.size !== n) for (let i = 0; i < n; i++) enter(i);
+
+    if (entered) this.applyAutoHeight();
+    return all ? null : indices;
+  }
+
+  private promoteSources(el: HTMLElement) {
+    const nodes = el.matches("img[data-src], img[data-srcset]")
+      ? [el]
+      : Array.from(
+          el.querySelectorAll<HTMLElement>(
+            "img[data-src], img[data-srcset], source[data-srcset]",
+          ),
+        );
+    for (const node of nodes) {
+      const { src, srcset } = node.dataset;
+      if (srcset) node.setAttribute("srcset", srcset);
+      if (src) node.setAttribute("src", src);
+      node.removeAttribute("data-src");
+      node.removeAttribute("data-srcset");
+    }
+  }
+
+  /** Reads a slide's size, keeping the last one while it is hidden. */
+  private slideSize(el: HTMLElement) {
+    const cached = this._size.get(el);
+    if (cached && el.style.contentVisibility === "hidden") return cached;
+    const size = { width: el.offsetWidth, height: el.offsetHeight };
+    this._size.set(el, size);
+    return size;
+  }
+
+  private setSlideHidden(el: HTMLElement, hidden: boolean) {
+    el.style.contentVisibility = hidden ? "hidden" : "";
+    el.style.visibility = hidden ? "hidden" : "";
+    el.style.setProperty("contain-intrinsic-size", hidden ? "auto none" : "");
+    if (!hidden) this._tx.delete(el);
+  }
+
+  /** Px between the viewport start and the slot the active slide aligns to. */
+  private computeAlignOffset(pos: number) {
+    if (this.align !== "center" && this.align !== "end") return 0;
+    let size = this.itemSize - this.gap;
+    if (this.offsets) {
+      const n = this.offsets.length;
+      const local = ((pos % n) + n) % n;
+      const i = Math.floor(local) % n;
+      const frac = local - Math.floor(local);
+      size = this.sizes[i] * (1 - frac) + this.sizes[(i + 1) % n] * frac;
+    }
+    const free = this.viewportSize - size;
+    return this.align === "center" ? free / 2 : free;
+  }
+
+  /** The aligned slot's offset in items, i.e. how many slides peek before it. */
+  private alignLead() {
+    return this.computeAlignOffset(this.index) / Math.max(1, this.itemSize);
+  }
+
+  /** With `virtual`, only the window's slides are measured. */
+  private measuredSlides() {
+    const slides = this.slides ?? [];
+    return this.virtual && this.nearSlides.size
+      ? slides.filter((el) => this.nearSlides.has(el))
+      : slides;
+  }
+
+  /** Runs on measure and when the window gains slides, never per frame. */
+  private applyAutoHeight() {
+    if (!this.autoHeight || this.isVertical()) return;
+    const maxH = this.maxSlideSize(this.measuredSlides(), "height");
+    if (maxH > 0) this.style.height = `${Math.ceil(maxH)}px`;
+  }
+
+  private placeSlide(
+    el: HTMLElement,
+    index: number,
+    rel: number,
+    n: number,
+    offset = rel * this.itemSize,
+  ) {
+    const dir = this.dirSign();
+    const ctx: SlideEffectContext = {
+      progress: rel,
+      offset: dir * (offset + this.alignOffset),
+      align: dir * this.alignOffset,
+      size: this.itemSize,
+      index,
+      count: n,
+      vertical: this.isVertical(),
+      direction: dir,
+    };
+    const effect =
+      typeof this.effect === "function"
+        ? this.effect
+        : slideEffects[this.effect];
+    const style = effect
+      ? { transform: translate(ctx), ...effect(ctx, el) }
+      : { transform: translate(ctx) };
+
+    const progress = rel.toFixed(3);
+    const key = `${style.transform}|${style.opacity ?? ""}|${style.zIndex ?? ""}|${style.filter ?? ""}|${progress}`;
+    if (this._tx.get(el) === key) return;
+    this._tx.set(el, key);
 
-    if (this.autoHeight) {
-      let maxH = 0;
-      for (const el of this.slides) {
-        const h = el.getBoundingClientRect().height;
-        if (h > maxH) maxH = h;
+    el.style.transform = style.transform ?? "";
+    const owned = this._fx.get(el);
+    let next: Set<EffectProp> | undefined;
+    for (const prop of EFFECT_PROPS) {
+      const value = style[prop];
+      if (value !== undefined) {
+        el.style[prop] = String(value);
+        if (!next) next = new Set();
+        next.add(prop);
+      } else if (owned?.has(prop)) {
+        el.style[prop] = "";
       }
-      if (maxH > 0) this.style.height = `${Math.ceil(maxH)}px`;
     }
+    if (next) this._fx.set(el, next);
+    else if (owned) this._fx.delete(el);
+    el.style.setProperty("--slide-progress", progress);
   }
 }
 
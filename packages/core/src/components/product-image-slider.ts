@@ -1,29 +1,143 @@
 import { css, html, LitElement } from "lit";
 import { customElement, property, state } from "lit/decorators.js";
+import { ifDefined } from "lit/directives/if-defined.js";
 
 type TrackStyle = "pill" | "line" | "skewed" | "dot";
 type TransitionType = "slide" | "fade";
-type Img = { url: string; alt?: string };
+type ZoomMode = boolean | "lens" | "panel";
+type VariantMode = "filter" | "reorder";
+type LoadState = "loading" | "loaded" | "error";
+type StripPosition = "bottom" | "left" | "right";
+type UrlMode = "query" | "hash";
+type ImgSource = {
+  srcset: string;
+  type?: string;
+  media?: string;
+  sizes?: string;
+};
+type MediaType = "image" | "video" | "iframe";
+/**
+ * A gallery item; `type` defaults to "image". `zoom` is the optional
+ * high-resolution source used by the magnifier, `thumb` a small source for
+ * the strip, `sources` extra `<picture>` formats, `poster` the video still
+ * and `placeholder` a tiny blur-up image shown while the slide loads.
+ */
+type Img = {
+  /** Stable id written to the URL by `url-sync` instead of the position. */
+  id?: string;
+  url: string;
+  alt?: string;
+  type?: MediaType;
+  poster?: string;
+  placeholder?: string;
+  zoom?: string;
+  srcset?: string;
+  sizes?: string;
+  width?: number;
+  height?: number;
+  thumb?: string;
+  sources?: ImgSource[];
+  /** Variant tags (e.g. colours); untagged items show for every variant. */
+  variants?: string[];
+};
+type RawImg = Omit<Partial<Img>, "id" | "width" | "height" | "variants"> & {
+  id?: string | number | null;
+  src?: string;
+  variant?: string | null;
+  variants?: string | string[] | null;
+  width?: number | string | null;
+  height?: number | string | null;
+};
+
+const dim = (v: unknown) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+const tags = (v: unknown): string[] | undefined => {
+  const list = Array.isArray(v) ? v : String(v ?? "").split(/[\s,]+/);
+  const out = list.map((t) => String(t).trim()).filter(Boolean);
+  return out.length ? out : undefined;
+};
+
+/** postMessage pause commands for embeds that accept them. */
+const EMBED_PAUSE: Array<[RegExp, string]> = [
+  [
+    /^https?:\/\/(www\.)?youtube(-nocookie)?\.com\/embed\//,
+    JSON.stringify({ event: "command", func: "pauseVideo", args: [] }),
+  ],
+  [
+    /^https?:\/\/player\.vimeo\.com\/video\//,
+    JSON.stringify({ method: "pause" }),
+  ],
+];
+
+/** YouTube only listens for commands with the JS API enabled. */
+const embedSrc = (url: string) => {
+  if (!EMBED_PAUSE[0][0].test(url) || /[?&]enablejsapi=/.test(url)) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}enablejsapi=1`;
+};
+
+/**
+ * Parses the fragment as key=value pairs. Anchors like `#reviews` or
+ * router paths return null and are left alone.
+ */
+const hashParams = (hash: string) => {
+  const raw = hash.slice(1);
+  if (raw && !/^[^&=/?]+=[^&]*(&[^&=/?]+=[^&]*)*$/.test(raw)) return null;
+  return new URLSearchParams(raw);
+};
+
+const MEDIA_TYPES: readonly MediaType[] = ["image", "video", "iframe"];
+
+function toImg(i: RawImg): Img {
+  return {
+    id: i.id != null && i.id !== "" ? String(i.id) : undefined,
+    url: (i.url ?? i.src ?? "") as string,
+    alt: i.alt ?? "",
+    type: i.type && MEDIA_TYPES.includes(i.type) ? i.type : "image",
+    poster: i.poster || undefined,
+    placeholder: i.placeholder || undefined,
+    zoom: i.zoom || undefined,
+    srcset: i.srcset || undefined,
+    sizes: i.sizes || undefined,
+    width: dim(i.width),
+    height: dim(i.height),
+    thumb: i.thumb || undefined,
+    sources: Array.isArray(i.sources)
+      ? i.sources.filter((src) => !!src?.srcset)
+      : undefined,
+    variants: tags(i.variants ?? i.variant),
+  };
+}
+
+const zoomConv = {
+  fromAttribute(value?: string | null): ZoomMode {
+    if (value === null || value === undefined || value === "false") return false;
+    if (value === "lens" || value === "magnifier") return "lens";
+    if (value === "panel") return "panel";
+    return true;
+  },
+  toAttribute(value?: ZoomMode): string | null {
+    if (value === true) return "";
+    return value || null;
+  },
+};
 
 const jsonConv = {
   fromAttribute(value?: string | null): Img[] {
     if (!value) return [];
     try {
-      const arr = JSON.parse(value) as Array<Partial<Img> & { src?: string }>;
+      const arr = JSON.parse(value) as RawImg[];
       if (!Array.isArray(arr)) return [];
-      return arr
-        .map((i) => ({
-          url: (i.url ?? i.src ?? "") as string,
-          alt: i.alt ?? "",
-        }))
-        .filter((i) => !!i.url);
+      return arr.map(toImg).filter((i) => !!i.url);
     } catch {
       return [];
     }
   },
   toAttribute(value?: Img[] | null): string | null {
     if (!value || !value.length) return null;
-    return JSON.stringify(value.map((i) => ({ url: i.url, alt: i.alt })));
+    return JSON.stringify(value);
   },
 };
 
@@ -37,11 +151,30 @@ export class ProductImageSlider extends LitElement {
   @property({ type: String, reflect: true }) trackstyle: TrackStyle = "dot";
   @property({ type: Number, reflect: true }) trackslimit = 0;
   @property({ type: String, reflect: true }) transition: TransitionType = "slide";
-  @property({ type: Boolean, reflect: true }) zoom = false;
+  @property({ converter: zoomConv, reflect: true }) zoom: ZoomMode = false;
   @property({ type: Boolean, reflect: true }) zoomBtn = false;
+  @property({ type: Number, attribute: "lens-scale" }) lensScale = 2.5;
+  @property({ type: Number, attribute: "lens-size" }) lensSize = 160;
+  @property({ type: String, attribute: "strip-position", reflect: true })
+  stripPosition: StripPosition = "bottom";
+  @property({ type: Boolean, attribute: "strip-arrows" }) stripArrows = false;
+  @property({ type: String }) fallback = "";
+  @property({ type: Boolean, attribute: "url-sync" }) urlSync = false;
+  @property({ type: String, attribute: "url-key" }) urlKey = "";
+  @property({ type: String, attribute: "url-mode" }) urlMode: UrlMode = "query";
+  @property({ type: String, reflect: true }) variant = "";
+  @property({ type: String, attribute: "variant-mode" })
+  variantMode: VariantMode = "filter";
+  /** `sizes` for thumbnail srcsets; defaults to the rendered thumb width. */
+  @property({ type: String, attribute: "thumb-sizes" }) thumbSizes = "";
 
   @state() private index = 0;
   @state() private isZoomed = false;
+  @state() private rtl = false;
+  @state() private canHover = true;
+  @state() private stripCanPrev = false;
+  @state() private stripCanNext = false;
+  @state() private thumbPx = 0;
 
   private startX: number | null = null;
   private dragX = 0;
@@ -50,6 +183,38 @@ export class ProductImageSlider extends LitElement {
   private tapCandidate = false;
   private readonly tapMovePx = 5;
   private zoomHistoryPushed = false;
+  private dirObs?: MutationObserver;
+
+  private readonly maxScale = 4;
+  private readonly doubleTapScale = 2.5;
+  private readonly doubleTapMs = 300;
+  private scale = 1;
+  private panX = 0;
+  private panY = 0;
+  private pointers = new Map<number, { x: number; y: number }>();
+  private pinchDist = 0;
+  private panStart: { x: number; y: number; panX: number; panY: number } | null =
+    null;
+  private lastTap: { t: number; x: number; y: number } | null = null;
+  private tapTimer: number | null = null;
+  private hoverQuery?: MediaQueryList;
+  private restoreFocus: HTMLElement | null = null;
+  private inerted: HTMLElement[] = [];
+  private scrollLock: string | null = null;
+  /** `images` after variant filtering/reordering; what actually renders. */
+  private slides: Img[] = [];
+  private loadState = new WeakMap<Img, LoadState>();
+  private stripDrag: {
+    x: number;
+    y: number;
+    left: number;
+    top: number;
+    moved: boolean;
+  } | null = null;
+  private suppressThumbClick = false;
+  private zoomBackPending = false;
+  private variantPending = false;
+  private urlRestored = false;
 
   createRenderRoot() {
     return this;
@@ -60,39 +225,302 @@ export class ProductImageSlider extends LitElement {
     if (!this.images?.length) this.loadFromChildImgs();
     this.addEventListener("keydown", this.handleKeyDown);
     window.addEventListener("popstate", this.handlePopState);
+    window.addEventListener("resize", this.updateStripOverflow, {
+      passive: true,
+    });
+    this.updateDirection();
+    this.dirObs = new MutationObserver(this.updateDirection);
+    this.dirObs.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ["dir"],
+      subtree: true,
+    });
+    this.hoverQuery = window.matchMedia?.("(hover: hover) and (pointer: fine)");
+    this.canHover = this.hoverQuery?.matches ?? true;
+    this.hoverQuery?.addEventListener("change", this.onHoverChange);
   }
   disconnectedCallback() {
     super.disconnectedCallback();
     this.removeEventListener("keydown", this.handleKeyDown);
     window.removeEventListener("popstate", this.handlePopState);
+    window.removeEventListener("resize", this.updateStripOverflow);
+    this.dirObs?.disconnect();
+    if (this.tapTimer) clearTimeout(this.tapTimer);
+    this.hoverQuery?.removeEventListener("change", this.onHoverChange);
+    this.lockPage(false);
+  }
+
+  private onHoverChange = () => {
+    this.canHover = this.hoverQuery?.matches ?? true;
+  };
+
+  willUpdate(changed: Map<string, unknown>) {
+    if (
+      changed.has("images") ||
+      changed.has("variant") ||
+      changed.has("variantMode")
+    ) {
+      this.slides = this.computeSlides();
+      // Initial variants count too, and wait for `images` if it is set later.
+      if (changed.has("variant")) {
+        this.variantPending =
+          !!this.variant || changed.get("variant") !== undefined;
+      }
+      if (this.variantPending && this.slides.length) {
+        this.variantPending = false;
+        const first = this.slides.findIndex((img) => this.inVariant(img));
+        this.index = Math.max(0, first);
+      } else if (this.index >= this.slides.length) {
+        this.index = 0;
+      }
+    }
+  }
+
+  updated(changed: Map<string, unknown>) {
+    // Deep links wait for the first non-empty `slides`, e.g. fetched `images`.
+    if (this.urlSync && !this.urlRestored && this.slides.length) {
+      this.urlRestored = true;
+      this.restoreFromUrl();
+    } else if (changed.has("index") && changed.get("index") !== undefined) {
+      this.writeUrl();
+    }
+    const slidesChanged =
+      changed.has("images") ||
+      changed.has("variant") ||
+      changed.has("variantMode");
+    if (changed.has("index") || slidesChanged) {
+      this.resetImageZoom();
+      this.syncMedia();
+    }
+    if (changed.has("variant") && changed.get("variant") !== undefined) {
+      requestAnimationFrame(() => this.scrollStripToIndex());
+      this.emitIndexChange();
+    }
+    if (this.strip) this.updateStripOverflow();
+  }
+
+  private inVariant(img: Img) {
+    return !!this.variant && !!img.variants?.includes(this.variant);
+  }
+
+  /**
+   * "filter" keeps matching and untagged items in their original order;
+   * "reorder" keeps everything but moves matches, then untagged, to the
+   * front. With no variant, or nothing tagged for it, all items show.
+   */
+  private computeSlides(): Img[] {
+    const all = this.images ?? [];
+    const hits = all.filter((img) => this.inVariant(img));
+    if (!hits.length) return all;
+    const untagged = all.filter((img) => !img.variants?.length);
+    if (this.variantMode === "reorder") {
+      const rest = all.filter(
+        (img) => !hits.includes(img) && !untagged.includes(img),
+      );
+      return [...hits, ...untagged, ...rest];
+    }
+    return all.filter((img) => this.inVariant(img) || !img.variants?.length);
+  }
+
+  private emitIndexChange() {
+    this.dispatchEvent(
+      new CustomEvent("index-change", {
+        detail: { index: this.index, variant: this.variant || null },
+      }),
+    );
+  }
+
+  /** Plays the active video muted and stops media on every other slide. */
+  private syncMedia() {
+    const reduced = window.matchMedia?.(
+      "(prefers-reduced-motion: reduce)",
+    ).matches;
+    const items = this.querySelectorAll<HTMLElement>(".carousel .carousel-item");
+    for (const [i, el] of Array.from(items).entries()) {
+      const video = el.querySelector("video");
+      if (i === this.index) {
+        if (video && !reduced) {
+          video.muted = true;
+          video.play().catch(() => {});
+        }
+      } else {
+        this.stopMedia(el);
+      }
+    }
+  }
+
+  private stopMedia(item: Element) {
+    const video = item.querySelector("video");
+    if (video && !video.paused) video.pause();
+    const frame = item.querySelector("iframe");
+    if (frame) this.pauseEmbed(frame, item.classList.contains("interactive"));
+    item.classList.remove("interactive");
+  }
+
+  /**
+   * YouTube and Vimeo players take a pause command; any other embed that
+   * was handed input is reloaded, the only generic way to halt it.
+   */
+  private pauseEmbed(frame: HTMLIFrameElement, touched: boolean) {
+    const src = frame.getAttribute("src") ?? "";
+    const message = EMBED_PAUSE.find(([re]) => re.test(src))?.[1];
+    if (message) {
+      try {
+        frame.contentWindow?.postMessage(message, new URL(src).origin);
+      } catch {}
+    } else if (touched) {
+      frame.setAttribute("src", src);
+    }
+  }
+
+  /** Tap on a video slide: toggles playback instead of zooming. */
+  private toggleMedia(): boolean {
+    if (this.slides[this.index]?.type !== "video") return false;
+    const video = this.querySelector(
+      ".carousel .carousel-item.active video",
+    ) as HTMLVideoElement | null;
+    if (video?.paused) video.play().catch(() => {});
+    else video?.pause();
+    return true;
+  }
+
+  /**
+   * Embeds ignore pointer input so the slide still swipes; the first tap
+   * hands input to the embed and its own controls.
+   */
+  private activateEmbed(): boolean {
+    if (this.slides[this.index]?.type !== "iframe") return false;
+    const item = this.querySelector(".carousel .carousel-item.active");
+    if (!item || item.classList.contains("interactive")) return false;
+    item.classList.add("interactive");
+    return true;
+  }
+
+  private onMediaLoad(image: Img, index: number) {
+    if (this.loadState.get(image) === "error") return;
+    this.loadState.set(image, "loaded");
+    this.requestUpdate();
+    this.dispatchEvent(
+      new CustomEvent("image-load", { detail: { index, url: image.url } }),
+    );
+  }
+
+  /** Marks the slide broken once; the re-render swaps in `fallback`, if any. */
+  private onMediaError(image: Img, index: number) {
+    if (this.loadState.get(image) === "error") return;
+    this.loadState.set(image, "error");
+    this.requestUpdate();
+    this.dispatchEvent(
+      new CustomEvent("image-error", {
+        detail: { index, url: image.url, fallback: this.fallback || null },
+      }),
+    );
+  }
+
+  /** Active slide and its wrap-around neighbours load eagerly. */
+  private isNear(i: number) {
+    const n = this.total;
+    const d = Math.abs(i - this.index);
+    return Math.min(d, n - d) <= 1;
+  }
+
+  private onMediaState = (e: Event) => {
+    const video = e.currentTarget as HTMLVideoElement;
+    video.closest(".carousel-item")?.toggleAttribute("data-paused", video.paused);
+  };
+
+  private updateDirection = () => {
+    const rtl = getComputedStyle(this).direction === "rtl";
+    if (rtl !== this.rtl) this.rtl = rtl;
+  };
+
+  /** -1 when the slider runs right-to-left. */
+  private get dirSign() {
+    return this.rtl ? -1 : 1;
   }
 
   private loadFromChildImgs() {
     const nodes = Array.from(
-      this.querySelectorAll(":scope > img"),
-    ) as HTMLImageElement[];
+      this.querySelectorAll(
+        ":scope > img, :scope > picture, :scope > video, :scope > iframe",
+      ),
+    ) as HTMLElement[];
     if (!nodes.length) return;
     const imgs = nodes
-      .map((img) => ({
-        url: img.getAttribute("src") ?? "",
-        alt: img.getAttribute("alt") ?? "",
-      }))
-      .filter((i) => !!i.url);
+      .map((el) => {
+        if (el instanceof HTMLVideoElement) {
+          return toImg({
+            type: "video",
+            url:
+              el.getAttribute("src") ??
+              el.querySelector("source")?.getAttribute("src") ??
+              "",
+            id: el.dataset.id,
+            alt: el.getAttribute("aria-label") ?? el.title ?? "",
+            poster: el.getAttribute("poster") ?? undefined,
+            thumb: el.dataset.thumb,
+            variant: el.dataset.variant,
+          });
+        }
+        if (el instanceof HTMLIFrameElement) {
+          return toImg({
+            type: "iframe",
+            id: el.dataset.id,
+            url: el.getAttribute("src") ?? "",
+            alt: el.title ?? "",
+            thumb: el.dataset.thumb,
+            variant: el.dataset.variant,
+          });
+        }
+        const img =
+          el instanceof HTMLImageElement ? el : el.querySelector("img");
+        if (!img) return null;
+        const sources = Array.from(el.querySelectorAll("source")).map(
+          (src) => ({
+            srcset: src.getAttribute("srcset") ?? "",
+            type: src.getAttribute("type") || undefined,
+            media: src.getAttribute("media") || undefined,
+            sizes: src.getAttribute("sizes") || undefined,
+          }),
+        );
+        return toImg({
+          id: el.dataset.id ?? img.dataset.id,
+          url: img.getAttribute("src") ?? "",
+          alt: img.getAttribute("alt") ?? "",
+          zoom: img.dataset.zoom,
+          srcset: img.getAttribute("srcset") ?? undefined,
+          sizes: img.getAttribute("sizes") ?? undefined,
+          width: img.getAttribute("width"),
+          height: img.getAttribute("height"),
+          thumb: img.dataset.thumb,
+          placeholder: img.dataset.placeholder,
+          variant: el.dataset.variant ?? img.dataset.variant,
+          sources,
+        });
+      })
+      .filter((i): i is Img => !!i?.url);
     if (!imgs.length) return;
     this.images = imgs;
     for (const el of nodes) el.style.display = "none";
   }
 
   private get total() {
-    return this.images?.length || 0;
+    return this.slides.length;
   }
   private get zoomEnabled() {
-    return this.zoom || this.zoomBtn;
+    return this.zoom === true || this.zoomBtn;
+  }
+  /** Magnifier mode; off on touch-only devices and inside the fullscreen view. */
+  private get lensMode(): "lens" | "panel" | null {
+    if (this.zoom !== "lens" && this.zoom !== "panel") return null;
+    return this.canHover && !this.isZoomed ? this.zoom : null;
   }
 
   private uiTarget(e: Event): boolean {
     const t = e.target as HTMLElement | null;
-    return !!t?.closest(".carousel-zoom-btn, .carousel-track, .carousel-thumb");
+    return !!t?.closest(
+      ".carousel-zoom-btn, .carousel-track, .carousel-thumb, .carousel-strip-arrow",
+    );
   }
 
   private onContainerClick = (e: Event) => {
@@ -115,6 +543,11 @@ export class ProductImageSlider extends LitElement {
     return ((i % n) + n) % n;
   }
 
+  /** Side rails scroll vertically; the bottom strip horizontally. */
+  private get stripVertical() {
+    return this.stripPosition === "left" || this.stripPosition === "right";
+  }
+
   private scrollStripToIndex() {
     if (!this.strip) return;
     const stripContainer = this.querySelector('.carousel-strip') as HTMLElement | null;
@@ -125,17 +558,137 @@ export class ProductImageSlider extends LitElement {
     const containerRect = stripContainer.getBoundingClientRect();
     const thumbRect = activeThumb.getBoundingClientRect();
 
+    // Rect-based so it holds for RTL strips, where scrollLeft runs negative.
+    if (this.stripVertical) {
+      const thumbInView = thumbRect.top >= containerRect.top && thumbRect.bottom <= containerRect.bottom;
+      if (thumbInView) return;
+      const delta =
+        thumbRect.top + thumbRect.height / 2 -
+        (containerRect.top + containerRect.height / 2);
+      stripContainer.scrollTo({
+        top: stripContainer.scrollTop + delta,
+        behavior: 'smooth'
+      });
+      return;
+    }
+
     const thumbInView = thumbRect.left >= containerRect.left && thumbRect.right <= containerRect.right;
 
     if (!thumbInView) {
-      const scrollLeft = activeThumb.offsetLeft - stripContainer.offsetWidth / 2 + activeThumb.offsetWidth / 2;
+      const delta =
+        thumbRect.left + thumbRect.width / 2 -
+        (containerRect.left + containerRect.width / 2);
       stripContainer.scrollTo({
-        left: Math.max(0, scrollLeft),
+        left: stripContainer.scrollLeft + delta,
         behavior: 'smooth'
       });
     }
   }
 
+  private updateStripOverflow = () => {
+    const strip = this.querySelector(".carousel-strip") as HTMLElement | null;
+    if (!strip) return;
+    const [pos, view, size] = this.stripVertical
+      ? [strip.scrollTop, strip.clientHeight, strip.scrollHeight]
+      : [Math.abs(strip.scrollLeft), strip.clientWidth, strip.scrollWidth];
+    const canPrev = pos > 1;
+    const canNext = pos + view < size - 1;
+    if (canPrev !== this.stripCanPrev) this.stripCanPrev = canPrev;
+    if (canNext !== this.stripCanNext) this.stripCanNext = canNext;
+    // Follows --thumb-size and the strip layout instead of a fixed guess.
+    const thumb = strip.querySelector(".carousel-thumb");
+    const px = thumb ? Math.ceil(thumb.getBoundingClientRect().width) : 0;
+    if (px && px !== this.thumbPx) this.thumbPx = px;
+  };
+
+  private scrollStrip(step: 1 | -1) {
+    const strip = this.querySelector(".carousel-strip") as HTMLElement | null;
+    if (!strip) return;
+    if (this.stripVertical) {
+      strip.scrollBy({ top: step * strip.clientHeight * 0.8, behavior: "smooth" });
+    } else {
+      strip.scrollBy({
+        left: step * this.dirSign * strip.clientWidth * 0.8,
+        behavior: "smooth",
+      });
+    }
+  }
+
+  private onStripDown = (e: PointerEvent) => {
+    if (e.pointerType !== "mouse" || e.button !== 0) return;
+    const strip = e.currentTarget as HTMLElement;
+    this.stripDrag = {
+      x: e.clientX,
+      y: e.clientY,
+      left: strip.scrollLeft,
+      top: strip.scrollTop,
+      moved: false,
+    };
+  };
+
+  private onStripMove = (e: PointerEvent) => {
+    const drag = this.stripDrag;
+    if (!drag) return;
+    const strip = e.currentTarget as HTMLElement;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    if (!drag.moved && Math.hypot(dx, dy) <= this.tapMovePx) return;
+    if (!drag.moved) {
+      drag.moved = true;
+      strip.setPointerCapture?.(e.pointerId);
+      strip.classList.add("dragging");
+    }
+    if (this.stripVertical) strip.scrollTop = drag.top - dy;
+    else strip.scrollLeft = drag.left - dx;
+  };
+
+  private onStripUp = (e: PointerEvent) => {
+    const drag = this.stripDrag;
+    this.stripDrag = null;
+    if (!drag?.moved) return;
+    const strip = e.currentTarget as HTMLElement;
+    strip.releasePointerCapture?.(e.pointerId);
+    strip.classList.remove("dragging");
+    this.suppressThumbClick = true;
+    setTimeout(() => {
+      this.suppressThumbClick = false;
+    });
+  };
+
+  private onThumbClick(i: number) {
+    if (this.suppressThumbClick) return;
+    this.goTo(i);
+  }
+
+  /** Roving tabindex: arrows along the rail move focus and selection. */
+  private onStripKey = (e: KeyboardEvent) => {
+    const [prev, next] = this.stripVertical
+      ? ["ArrowUp", "ArrowDown"]
+      : this.rtl
+        ? ["ArrowRight", "ArrowLeft"]
+        : ["ArrowLeft", "ArrowRight"];
+    let to: number | null = null;
+    if (e.key === prev) to = this.wrapIndex(this.index - 1);
+    else if (e.key === next) to = this.wrapIndex(this.index + 1);
+    else if (e.key === "Home") to = 0;
+    else if (e.key === "End") to = this.total - 1;
+    else if (e.key === "Enter" || e.key === " ") {
+      e.stopPropagation();
+      return;
+    }
+    if (to === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    this.goTo(to);
+    this.updateComplete.then(() => {
+      (
+        this.querySelector(
+          `.carousel-thumb[data-index="${to}"]`,
+        ) as HTMLElement | null
+      )?.focus();
+    });
+  };
+
   private getVisibleTrackRange(): { start: number; end: number } {
     const total = this.total;
     const limit = this.trackslimit;
@@ -175,14 +728,33 @@ export class ProductImageSlider extends LitElement {
     if (clamped !== this.index) {
       this.index = clamped;
       requestAnimationFrame(() => this.scrollStripToIndex());
-      this.dispatchEvent(
-        new CustomEvent("index-change", { detail: { index: clamped } }),
-      );
+      this.emitIndexChange();
     }
   }
 
   private onStart = (e: PointerEvent) => {
-    if (this.uiTarget(e) || this.total <= 1) return;
+    if (this.uiTarget(e)) return;
+    if (this.isZoomed) {
+      e.preventDefault();
+      (this.querySelector(".carousel") as HTMLElement | null)
+        ?.setPointerCapture?.(e.pointerId);
+      this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (this.pointers.size === 2) {
+        this.cancelDrag();
+        this.startPinch();
+        return;
+      }
+      if (this.scale > 1) {
+        this.startPan(e.clientX, e.clientY);
+        this.tapCandidate = true;
+        return;
+      }
+    }
+    if (this.total <= 1) {
+      this.startX = e.clientX;
+      this.tapCandidate = true;
+      return;
+    }
     e.preventDefault();
     const carousel = this.querySelector(".carousel") as HTMLElement | null;
     carousel?.setPointerCapture?.(e.pointerId);
@@ -190,7 +762,7 @@ export class ProductImageSlider extends LitElement {
     this.tapCandidate = true;
     this.startX = e.clientX;
     this.dragX = 0;
-    this.startTransformPct = -this.index * 100;
+    this.startTransformPct = -this.index * 100 * this.dirSign;
     const track = this.querySelector(".carousel") as HTMLElement | null;
     if (track && this.transition !== "fade") {
       track.style.transition = "none";
@@ -198,6 +770,29 @@ export class ProductImageSlider extends LitElement {
   };
 
   private onMove = (e: PointerEvent) => {
+    if (this.pointers.has(e.pointerId)) {
+      this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    }
+    if (this.pinchDist) {
+      e.preventDefault();
+      this.movePinch();
+      return;
+    }
+    if (this.panStart) {
+      e.preventDefault();
+      const dx = e.clientX - this.panStart.x;
+      const dy = e.clientY - this.panStart.y;
+      if (Math.hypot(dx, dy) > this.tapMovePx) this.tapCandidate = false;
+      this.panX = this.panStart.panX + dx;
+      this.panY = this.panStart.panY + dy;
+      this.applyImageZoom(false);
+      return;
+    }
+    if (this.startX !== null && this.total <= 1) {
+      if (Math.abs(e.clientX - this.startX) > this.tapMovePx)
+        this.tapCandidate = false;
+      return;
+    }
     if (!this.isDragging || this.startX === null) return;
     e.preventDefault();
     this.dragX = e.clientX - this.startX;
@@ -215,6 +810,28 @@ export class ProductImageSlider extends LitElement {
   };
 
   private onEnd = (e: PointerEvent) => {
+    this.pointers.delete(e.pointerId);
+    if (this.pinchDist) {
+      if (this.pointers.size >= 2) return;
+      this.pinchDist = 0;
+      if (this.scale <= 1.01) this.resetImageZoom();
+      const [rest] = this.pointers.values();
+      if (rest && this.scale > 1) this.startPan(rest.x, rest.y);
+      this.tapCandidate = false;
+      return;
+    }
+    if (this.panStart) {
+      this.panStart = null;
+      if (this.tapCandidate && !this.uiTarget(e)) this.onTap(e);
+      this.tapCandidate = false;
+      return;
+    }
+    if (this.startX !== null && this.total <= 1) {
+      if (this.tapCandidate && !this.uiTarget(e)) this.onTap(e);
+      this.startX = null;
+      this.tapCandidate = false;
+      return;
+    }
     if (!this.isDragging || this.startX === null) return;
     const carousel = this.querySelector(".carousel") as HTMLElement | null;
     carousel?.releasePointerCapture?.(e.pointerId);
@@ -226,7 +843,7 @@ export class ProductImageSlider extends LitElement {
     let next = this.index;
     if (Math.abs(dx) > threshold) {
       next =
-        dx > 0
+        dx * this.dirSign > 0
           ? this.wrapIndex(this.index - 1)
           : this.wrapIndex(this.index + 1);
     }
@@ -235,29 +852,215 @@ export class ProductImageSlider extends LitElement {
     const track = this.querySelector(".carousel") as HTMLElement | null;
     if (track) {
       if (this.transition === "slide") {
-        track.style.transform = `translateX(${-this.index * 100}%)`;
+        track.style.transform = `translateX(${-this.index * 100 * this.dirSign}%)`;
       }
     }
 
+    if (this.tapCandidate && !this.uiTarget(e)) this.onTap(e);
+
+    this.isDragging = false;
+    this.startX = null;
+    this.dragX = 0;
+    this.tapCandidate = false;
+
+    requestAnimationFrame(() => this.scrollStripToIndex());
+
+    this.emitIndexChange();
+  };
+
+  /**
+   * Outside the zoomed view a tap opens it. Inside, a second tap within
+   * `doubleTapMs` toggles 1x/2.5x at the tap point; a lone tap at 1x
+   * closes the view once the double-tap window has passed.
+   */
+  private onTap(e: PointerEvent) {
+    if (this.toggleMedia() || this.activateEmbed()) return;
+    if (!this.isZoomed) {
+      if (this.zoom === true) this.toggleZoom();
+      return;
+    }
+    const now = performance.now();
+    const last = this.lastTap;
     if (
-      this.zoomEnabled &&
-      this.zoom &&
-      this.tapCandidate &&
-      !this.uiTarget(e)
+      last &&
+      now - last.t < this.doubleTapMs &&
+      Math.hypot(e.clientX - last.x, e.clientY - last.y) < 25
     ) {
-      this.toggleZoom();
+      this.lastTap = null;
+      if (this.tapTimer) clearTimeout(this.tapTimer);
+      this.tapTimer = null;
+      this.zoomAt(
+        this.scale > 1 ? 1 : this.doubleTapScale,
+        e.clientX,
+        e.clientY,
+        true,
+      );
+      return;
     }
+    this.lastTap = { t: now, x: e.clientX, y: e.clientY };
+    if (this.scale > 1 || this.zoom !== true) return;
+    if (this.tapTimer) clearTimeout(this.tapTimer);
+    this.tapTimer = window.setTimeout(() => {
+      this.tapTimer = null;
+      if (this.isZoomed && this.scale === 1) this.closeZoom();
+    }, this.doubleTapMs);
+  }
 
+  private onWheel = (e: WheelEvent) => {
+    if (!this.isZoomed || this.uiTarget(e)) return;
+    e.preventDefault();
+    const dy = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+    this.zoomAt(this.scale * Math.exp(-dy * 0.002), e.clientX, e.clientY);
+  };
+
+  private cancelDrag() {
+    if (!this.isDragging) return;
     this.isDragging = false;
     this.startX = null;
     this.dragX = 0;
+    const track = this.querySelector(".carousel") as HTMLElement | null;
+    if (track && this.transition === "slide") {
+      track.style.transition = "";
+      track.style.transform = `translateX(${-this.index * 100 * this.dirSign}%)`;
+    }
+  }
+
+  private startPan(x: number, y: number) {
+    this.panStart = { x, y, panX: this.panX, panY: this.panY };
+  }
+
+  private startPinch() {
+    const [a, b] = this.pointers.values();
+    this.pinchDist = Math.hypot(a.x - b.x, a.y - b.y) || 1;
+    this.panStart = null;
     this.tapCandidate = false;
+  }
 
-    requestAnimationFrame(() => this.scrollStripToIndex());
+  private movePinch() {
+    const [a, b] = this.pointers.values();
+    const dist = Math.hypot(a.x - b.x, a.y - b.y) || 1;
+    const next = this.scale * (dist / this.pinchDist);
+    this.pinchDist = dist;
+    this.zoomAt(next, (a.x + b.x) / 2, (a.y + b.y) / 2);
+  }
 
-    this.dispatchEvent(
-      new CustomEvent("index-change", { detail: { index: this.index } }),
+  private get activeImage() {
+    return this.querySelector(
+      ".carousel .carousel-item.active img",
+    ) as HTMLImageElement | null;
+  }
+
+  /** Scales around the client point (cx, cy), keeping it fixed under the cursor. */
+  private zoomAt(next: number, cx: number, cy: number, animate = false) {
+    const img = this.activeImage;
+    if (!img) return;
+    const s = Math.min(this.maxScale, Math.max(1, next));
+    const r = img.getBoundingClientRect();
+    // The rect includes the current transform, so its centre is the pan origin.
+    const px = cx - (r.left + r.width / 2) + this.panX;
+    const py = cy - (r.top + r.height / 2) + this.panY;
+    const k = s / this.scale;
+    this.panX = px - (px - this.panX) * k;
+    this.panY = py - (py - this.panY) * k;
+    this.scale = s;
+    this.applyImageZoom(animate);
+  }
+
+  /** Keeps the rendered (object-contain) image covering the box while panned. */
+  private clampPan() {
+    const img = this.activeImage;
+    if (!img || this.scale <= 1) {
+      this.panX = 0;
+      this.panY = 0;
+      return;
+    }
+    const w = img.clientWidth;
+    const h = img.clientHeight;
+    const nw = img.naturalWidth || w;
+    const nh = img.naturalHeight || h;
+    const fit = Math.min(w / nw, h / nh) || 1;
+    const maxX = Math.max(0, (nw * fit * this.scale - w) / 2);
+    const maxY = Math.max(0, (nh * fit * this.scale - h) / 2);
+    this.panX = Math.min(maxX, Math.max(-maxX, this.panX));
+    this.panY = Math.min(maxY, Math.max(-maxY, this.panY));
+  }
+
+  private applyImageZoom(animate: boolean) {
+    this.clampPan();
+    const img = this.activeImage;
+    const carousel = this.querySelector(
+      ".product-image-carousel",
+    ) as HTMLElement | null;
+    carousel?.classList.toggle("zoomed-in", this.scale > 1);
+    if (!img) return;
+    img.style.transition = animate ? "transform 250ms ease-out" : "none";
+    img.style.transform =
+      this.scale > 1
+        ? `translate(${this.panX}px, ${this.panY}px) scale(${this.scale})`
+        : "";
+  }
+
+  private resetImageZoom() {
+    this.scale = 1;
+    this.panX = 0;
+    this.panY = 0;
+    this.pinchDist = 0;
+    this.panStart = null;
+    for (const img of Array.from(
+      this.querySelectorAll(".carousel .carousel-item img"),
+    ) as HTMLElement[]) {
+      img.style.transform = "";
+      img.style.transition = "";
+    }
+    this.querySelector(".product-image-carousel")?.classList.remove(
+      "zoomed-in",
     );
+  }
+
+  private onLensMove = (e: PointerEvent) => {
+    const mode = this.lensMode;
+    const lens = this.querySelector(".carousel-lens") as HTMLElement | null;
+    const img = this.activeImage;
+    if (!mode || !lens || !img) return;
+    if (e.pointerType !== "mouse" || this.isDragging) {
+      lens.classList.remove("active");
+      return;
+    }
+    // Rendered image area inside the object-contain box.
+    const r = img.getBoundingClientRect();
+    const nw = img.naturalWidth || r.width;
+    const nh = img.naturalHeight || r.height;
+    const fit = Math.min(r.width / nw, r.height / nh) || 1;
+    const cw = nw * fit;
+    const ch = nh * fit;
+    const left = r.left + (r.width - cw) / 2;
+    const top = r.top + (r.height - ch) / 2;
+    const x = e.clientX - left;
+    const y = e.clientY - top;
+    if (x < 0 || y < 0 || x > cw || y > ch) {
+      lens.classList.remove("active");
+      return;
+    }
+
+    const image = this.slides[this.index];
+    const src = image?.zoom || img.currentSrc || image?.url;
+    const k = Math.max(1, this.lensScale);
+    lens.style.backgroundImage = src ? `url("${src}")` : "";
+    lens.style.backgroundSize = `${cw * k}px ${ch * k}px`;
+    const w = mode === "lens" ? this.lensSize : lens.offsetWidth;
+    const h = mode === "lens" ? this.lensSize : lens.offsetHeight;
+    lens.style.backgroundPosition = `${w / 2 - x * k}px ${h / 2 - y * k}px`;
+    if (mode === "lens") {
+      const box = lens.parentElement?.getBoundingClientRect();
+      lens.style.setProperty("--lens-size", `${this.lensSize}px`);
+      lens.style.left = `${e.clientX - (box?.left ?? 0) - w / 2}px`;
+      lens.style.top = `${e.clientY - (box?.top ?? 0) - h / 2}px`;
+    }
+    lens.classList.add("active");
+  };
+
+  private onLensLeave = () => {
+    this.querySelector(".carousel-lens")?.classList.remove("active");
   };
 
   private readonly handleKeyDown: EventListener = (ev: Event) =>
@@ -267,87 +1070,219 @@ export class ProductImageSlider extends LitElement {
     if (this.isZoomed && this.zoomHistoryPushed) {
       e.preventDefault();
       this.closeZoom();
+      // The entry we landed on predates the zoom; carry the index over.
+      this.writeUrl();
+      return;
     }
+    if (this.zoomBackPending) {
+      this.zoomBackPending = false;
+      this.writeUrl();
+      return;
+    }
+    if (this.urlSync) this.restoreFromUrl();
   };
 
+  /** Query/hash key; namespaced by `url-key` or the element id. */
+  private get urlParam() {
+    return this.urlKey || (this.id ? `${this.id}-image` : "image");
+  }
+
+  private readUrl(): string | null {
+    const url = new URL(window.location.href);
+    const params =
+      this.urlMode === "hash" ? hashParams(url.hash) : url.searchParams;
+    return params?.get(this.urlParam) ?? null;
+  }
+
+  private writeUrl() {
+    if (!this.urlSync || typeof window === "undefined" || !window.history)
+      return;
+    const slide = this.slides[this.index];
+    if (!slide) return;
+    const value = slide.id ?? String(this.index + 1);
+    const url = new URL(window.location.href);
+    if (this.urlMode === "hash") {
+      const params = hashParams(url.hash);
+      if (!params) return;
+      params.set(this.urlParam, value);
+      url.hash = params.toString();
+    } else {
+      url.searchParams.set(this.urlParam, value);
+    }
+    if (url.href !== window.location.href) {
+      window.history.replaceState(window.history.state, "", url);
+    }
+  }
+
+  /** Accepts a slide id or a 1-based position. */
+  private restoreFromUrl() {
+    const value = this.readUrl();
+    if (value === null) return;
+    let i = this.slides.findIndex((img) => img.id === value);
+    if (i < 0) {
+      const n = Number.parseInt(value, 10);
+      if (Number.isFinite(n) && n >= 1 && n <= this.total) i = n - 1;
+    }
+    if (i >= 0) this.goTo(i);
+  }
+
   private onKey = (e: KeyboardEvent) => {
+    if (this.isZoomed && e.key === "Tab") {
+      this.trapFocus(e);
+      return;
+    }
+    if (e.key === "Escape" && this.isZoomed) {
+      this.closeZoom();
+      return;
+    }
     if (this.total <= 1) return;
-    if (e.key === "ArrowRight") this.goTo(this.wrapIndex(this.index + 1));
-    if (e.key === "ArrowLeft") this.goTo(this.wrapIndex(this.index - 1));
-    if (this.zoomEnabled && (e.key === "Enter" || e.key === " "))
-      this.toggleZoom();
-    if (e.key === "Escape") this.closeZoom();
+    if (e.key === "ArrowRight") this.goTo(this.wrapIndex(this.index + this.dirSign));
+    if (e.key === "ArrowLeft") this.goTo(this.wrapIndex(this.index - this.dirSign));
+    if (e.key !== "Enter" && e.key !== " ") return;
+    // Buttons and links act on their own native click.
+    if ((e.target as Element | null)?.closest?.("button, a")) return;
+    if (this.zoomEnabled) this.toggleZoom();
   };
 
   private toggleZoom() {
-    if (!this.zoomEnabled) return;
+    if (this.isZoomed) this.closeZoom();
+    else if (this.zoomEnabled) this.openZoom();
+  }
+
+  /** Opens the fullscreen viewer, optionally at `index`. */
+  async openZoom(index?: number) {
+    if (index !== undefined) this.goTo(index);
     const carousel = this.querySelector(
       ".product-image-carousel",
     ) as HTMLElement | null;
-    if (carousel) {
-      const isCurrentlyZoomed = carousel.classList.contains("zoomed");
-      if (isCurrentlyZoomed) {
-        this.closeZoom();
-      } else {
-        this.openZoom();
-      }
-    }
-  }
-
-private openZoom() {
-  const carousel = this.querySelector(
-    ".product-image-carousel",
-  ) as HTMLElement | null;
-  const placeholder = this.querySelector(
-    ".carousel-placeholder",
-  ) as HTMLElement | null;
+    if (!carousel || this.isZoomed) return;
+    const placeholder = this.querySelector(
+      ".carousel-placeholder",
+    ) as HTMLElement | null;
 
-  if (carousel) {
     if (placeholder) {
       const rect = carousel.getBoundingClientRect();
       placeholder.style.height = `${rect.height}px`;
     }
 
+    const active = document.activeElement;
+    this.restoreFocus = active instanceof HTMLElement ? active : null;
     carousel.classList.add("zoomed");
     carousel.classList.add("btn-close");
     this.isZoomed = true;
+    this.lockPage(true);
 
     if (typeof window !== "undefined" && window.history) {
       window.history.pushState({ zoomOpen: true }, "");
       this.zoomHistoryPushed = true;
     }
+
+    this.dispatchEvent(
+      new CustomEvent("zoom-open", { detail: { index: this.index } }),
+    );
+    await this.updateComplete;
+    (
+      this.querySelector(".carousel-zoom-btn") as HTMLElement | null
+    )?.focus();
   }
-}
 
-private closeZoom = () => {
-  const carousel = this.querySelector(
-    ".product-image-carousel",
-  ) as HTMLElement | null;
-  const placeholder = this.querySelector(
-    ".carousel-placeholder",
-  ) as HTMLElement | null;
-
-  if (carousel) {
-    carousel.classList.remove("zoomed");
-    carousel.classList.remove("btn-close");
+  closeZoom() {
+    if (!this.isZoomed) return;
+    const carousel = this.querySelector(
+      ".product-image-carousel",
+    ) as HTMLElement | null;
+    const placeholder = this.querySelector(
+      ".carousel-placeholder",
+    ) as HTMLElement | null;
+
+    carousel?.classList.remove("zoomed");
+    carousel?.classList.remove("btn-close");
     this.isZoomed = false;
+    this.lockPage(false);
+    this.resetImageZoom();
+    this.pointers.clear();
+    for (const item of Array.from(
+      this.querySelectorAll(".carousel .carousel-item"),
+    ))
+      this.stopMedia(item);
+
+    if (placeholder) {
+      placeholder.style.height = "";
+    }
+
+    if (
+      this.zoomHistoryPushed &&
+      typeof window !== "undefined" &&
+      window.history
+    ) {
+      this.zoomHistoryPushed = false;
+      if (window.history.state?.zoomOpen) {
+        this.zoomBackPending = true;
+        window.history.back();
+      }
+    }
+
+    this.dispatchEvent(
+      new CustomEvent("zoom-close", { detail: { index: this.index } }),
+    );
+    const target = this.restoreFocus;
+    this.restoreFocus = null;
+    if (target?.isConnected) target.focus();
   }
 
-  if (placeholder) {
-    placeholder.style.height = "";
+  /**
+   * Modal plumbing: locks page scroll and makes everything outside the
+   * slider inert (each ancestor's siblings), undoing it on release.
+   */
+  private lockPage(on: boolean) {
+    const root = document.documentElement;
+    if (!on) {
+      for (const el of this.inerted) el.inert = false;
+      this.inerted = [];
+      if (this.scrollLock !== null) root.style.overflow = this.scrollLock;
+      this.scrollLock = null;
+      return;
+    }
+    if (this.scrollLock === null) {
+      this.scrollLock = root.style.overflow;
+      root.style.overflow = "hidden";
+    }
+    let node: HTMLElement | null = this;
+    while (node && node !== document.body) {
+      const parent: HTMLElement | null = node.parentElement;
+      for (const sib of Array.from(parent?.children ?? [])) {
+        if (sib === node || !(sib instanceof HTMLElement) || sib.inert) continue;
+        sib.inert = true;
+        this.inerted.push(sib);
+      }
+      node = parent;
+    }
   }
 
-  if (
-    this.zoomHistoryPushed &&
-    typeof window !== "undefined" &&
-    window.history
-  ) {
-    this.zoomHistoryPushed = false;
-    if (window.history.state?.zoomOpen) {
-      window.history.back();
+  private trapFocus(e: KeyboardEvent) {
+    const dialog = this.querySelector(
+      ".product-image-carousel",
+    ) as HTMLElement | null;
+    if (!dialog) return;
+    const focusable = [
+      dialog,
+      ...Array.from(
+        dialog.querySelectorAll<HTMLElement>(
+          'button:not([disabled]), [href], iframe, [tabindex]:not([tabindex="-1"])',
+        ),
+      ).filter((el) => el.getClientRects().length > 0),
+    ];
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const current = document.activeElement;
+    if (e.shiftKey && (current === first || !dialog.contains(current))) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && (current === last || !dialog.contains(current))) {
+      e.preventDefault();
+      first.focus();
     }
   }
-};
 
   private onZoomButton = (e: MouseEvent) => {
     e.stopPropagation();
@@ -362,26 +1297,85 @@ private closeZoom = () => {
       <div class="carousel ${className}"
            style="${isFade
         ? ''
-        : `transform: translateX(${-this.index * 100}%);`
+        : `transform: translateX(${-this.index * 100 * this.dirSign}%);`
       }"
            data-images=${total}
-           data-transition=${this.transition}>
-        ${this.images.map((image, i) => {
+           data-transition=${this.transition}
+           @pointermove=${this.onLensMove}
+           @pointerleave=${this.onLensLeave}>
+        ${this.slides.map((image, i) => {
         const eager = i === 0;
+        const near = eager || this.isNear(i);
         const isActive = i === this.index;
-        return html`
-            <div 
-              class="carousel-item ${isActive ? 'active' : ''}" 
-              data-slide=${i}
-            >
-              <img
+        const type = image.type ?? "image";
+        const state = this.loadState.get(image) ?? "loading";
+        const broken = state === "error" && !!this.fallback;
+        const onLoad = () => this.onMediaLoad(image, i);
+        const onError = () => this.onMediaError(image, i);
+        const media =
+          type === "video"
+            ? html`<video
                 src=${image.url}
+                poster=${ifDefined(image.poster)}
+                aria-label=${image.alt || `Video ${i + 1}`}
+                muted
+                loop
+                playsinline
+                preload=${isActive ? "auto" : near ? "metadata" : "none"}
+                @loadedmetadata=${onLoad}
+                @error=${onError}
+                @play=${this.onMediaState}
+                @pause=${this.onMediaState}
+              ></video>`
+            : type === "iframe"
+              ? html`<iframe
+                  src=${embedSrc(image.url)}
+                  title=${image.alt || `Video ${i + 1}`}
+                  loading=${near ? "eager" : "lazy"}
+                  @load=${onLoad}
+                  allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
+                  allowfullscreen
+                ></iframe>`
+              : null;
+        const img = html`<img
+                src=${broken ? this.fallback : image.url}
+                srcset=${ifDefined(broken ? undefined : image.srcset)}
+                sizes=${ifDefined(broken ? undefined : image.sizes)}
+                width=${ifDefined(image.width)}
+                height=${ifDefined(image.height)}
                 alt=${image.alt ?? `Slide ${i + 1}`}
                 draggable="false"
-                loading=${eager ? "eager" : "lazy"}
+                loading=${near ? "eager" : "lazy"}
                 decoding="async"
                 fetchpriority=${eager ? "high" : "auto"}
-              />
+                @load=${onLoad}
+                @error=${onError}
+              />`;
+        return html`
+            <div 
+              class="carousel-item ${isActive ? 'active' : ''}" 
+              data-slide=${i}
+              data-type=${type}
+              data-state=${state}
+              ?data-paused=${type === "video"}
+              ?data-placeholder=${!!image.placeholder}
+              ?data-fallback=${broken}
+              style=${image.placeholder ? `--placeholder: url("${image.placeholder}")` : ""}
+            >
+              ${media ?? (image.sources?.length && !broken
+            ? html`<picture>
+                  ${image.sources.map(
+              (src) => html`<source
+                      srcset=${src.srcset}
+                      type=${ifDefined(src.type)}
+                      media=${ifDefined(src.media)}
+                      sizes=${ifDefined(src.sizes ?? image.sizes)}
+                    />`,
+            )}
+                  ${img}
+                </picture>`
+            : img)
+          }
             </div>`;
       })}
       </div>
@@ -390,29 +1384,43 @@ private closeZoom = () => {
 
   render() {
     const total = this.total;
+    // 56px is the default --thumb-size until a thumb has been measured.
+    const thumbSizes = this.thumbSizes || `${this.thumbPx || 56}px`;
 
     return html`
      <div class="carousel-placeholder" aria-hidden="true"></div>
 
 
       <div
-        class="product-image-carousel ${this.zoomEnabled ? "has-zoom-btn" : ""}"
+        class="product-image-carousel ${this.zoomEnabled || this.isZoomed ? "has-zoom-btn" : ""}"
         data-carousel="true"
-        role="slider"
+        role=${this.isZoomed ? "dialog" : "slider"}
         tabindex="0"
-        aria-valuemin="0"
-        aria-valuemax=${Math.max(0, total - 1)}
-        aria-valuenow=${this.index}
-        aria-orientation="horizontal"
+        aria-modal=${ifDefined(this.isZoomed ? "true" : undefined)}
+        aria-label=${ifDefined(this.isZoomed ? "Image viewer" : undefined)}
+        aria-valuemin=${ifDefined(this.isZoomed ? undefined : "0")}
+        aria-valuemax=${ifDefined(this.isZoomed ? undefined : Math.max(0, total - 1))}
+        aria-valuenow=${ifDefined(this.isZoomed ? undefined : this.index)}
+        aria-orientation=${ifDefined(this.isZoomed ? undefined : "horizontal")}
         @click=${this.onContainerClick}
       >
-        <div class="carousel-container"> 
+        <div class="carousel-container strip-${this.stripPosition === "bottom"
+        ? "bottom"
+        : (this.stripPosition === "left") !== this.rtl
+          ? "start"
+          : "end"}"> 
         <div class="carousel-wrapper ${this.transition}"
              @pointerdown=${this.onStart}
              @pointermove=${this.onMove}
              @pointerup=${this.onEnd}
+             @pointercancel=${this.onEnd}
+             @wheel=${this.onWheel}
         >
           ${this.renderTrack("carousel")}
+          ${this.lensMode === "lens"
+        ? html`<div class="carousel-lens lens" aria-hidden="true"></div>`
+        : null
+      }
         ${this.tracks && total > 1
         ? html`
             <div class="carousel-tracks">
@@ -441,15 +1449,28 @@ private closeZoom = () => {
       }
         </div>
 
-        ${this.zoomEnabled
+        ${this.lensMode === "panel"
+        ? html`<div class="carousel-lens panel" aria-hidden="true"></div>`
+        : null
+      }
+
+        ${this.isZoomed && total > 1
+        ? html`<div class="carousel-counter" aria-live="polite">
+            ${this.index + 1} / ${total}
+          </div>`
+        : null
+      }
+
+        ${this.zoomEnabled || this.isZoomed
         ? html`
           <button 
             class="carousel-zoom-btn ${this.zoomBtn ? "" : "click-only"}" 
             type="button" 
+            aria-label=${this.isZoomed ? "Close image viewer" : "View larger"}
             @click=${this.onZoomButton}
           >
-            <span class="zoom-icon">⤢</span>
-            <span class="close-icon">✕</span>
+            <span class="zoom-icon" aria-hidden="true">⤢</span>
+            <span class="close-icon" aria-hidden="true">✕</span>
           </button>
         `
         : null
@@ -457,21 +1478,75 @@ private closeZoom = () => {
 
         ${this.strip && total > 1
         ? html`
-              <div class="carousel-strip">
-                ${this.images.map(
+            <div class="carousel-rail">
+              ${this.stripArrows && this.stripCanPrev
+            ? html`<button
+                  type="button"
+                  class="carousel-strip-arrow prev"
+                  aria-label="Scroll thumbnails back"
+                  tabindex="-1"
+                  @click=${() => this.scrollStrip(-1)}
+                >${this.stripVertical ? "▴" : this.rtl ? "›" : "‹"}</button>`
+            : null
+          }
+              <div
+                class="carousel-strip"
+                role="group"
+                aria-label="Thumbnails"
+                aria-orientation=${this.stripVertical ? "vertical" : "horizontal"}
+                @scroll=${this.updateStripOverflow}
+                @keydown=${this.onStripKey}
+                @pointerdown=${this.onStripDown}
+                @pointermove=${this.onStripMove}
+                @pointerup=${this.onStripUp}
+                @pointercancel=${this.onStripUp}
+              >
+                ${this.slides.map(
           (t, i) => html`
                   <button
                     type="button"
                     class="carousel-thumb ${i === this.index ? "active" : ""}"
                     data-index=${i}
+                    data-type=${t.type ?? "image"}
                     aria-label=${`Thumbnail ${i + 1}`}
-                    @click=${() => this.goTo(i)}
+                    aria-current=${ifDefined(i === this.index ? "true" : undefined)}
+                    tabindex=${i === this.index ? 0 : -1}
+                    @click=${() => this.onThumbClick(i)}
                   >
-                    <img src=${t.url} alt=${t.alt ?? `Thumb ${i + 1}`} draggable="false" loading="lazy" decoding="async" />
+                    ${t.type === "video" || t.type === "iframe"
+            ? html`${t.thumb || t.poster
+              ? html`<img
+                      src=${t.thumb ?? t.poster ?? ""}
+                      alt=${t.alt || `Video ${i + 1}`}
+                      draggable="false"
+                      loading="lazy"
+                      decoding="async"
+                    />`
+              : null}<span class="carousel-thumb-play" aria-hidden="true">►</span>`
+            : html`<img
+                      src=${t.thumb ?? t.url}
+                      srcset=${ifDefined(t.thumb ? undefined : t.srcset)}
+                      sizes=${ifDefined(t.thumb || !t.srcset ? undefined : thumbSizes)}
+                      alt=${t.alt ?? `Thumb ${i + 1}`}
+                      draggable="false"
+                      loading="lazy"
+                      decoding="async"
+                    />`}
                   </button>
                 `,
         )}
               </div>
+              ${this.stripArrows && this.stripCanNext
+            ? html`<button
+                  type="button"
+                  class="carousel-strip-arrow next"
+                  aria-label="Scroll thumbnails forward"
+                  tabindex="-1"
+                  @click=${() => this.scrollStrip(1)}
+                >${this.stripVertical ? "▾" : this.rtl ? "‹" : "›"}</button>`
+            : null
+          }
+            </div>
             `
         : null
       }
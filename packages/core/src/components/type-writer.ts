@@ -2,8 +2,28 @@ import { html, LitElement, nothing } from "lit";
 import { customElement, property, state } from "lit/decorators.js";
 
 type Input = string | string[];
+/** A rotation phrase; `hold` overrides the element's `hold` for this one. */
+type Phrase = { text: string; hold?: number };
 let TW_SEQ = 0;
 
+const toPhrase = (p: unknown): Phrase => {
+  if (p && typeof p === "object") {
+    const o = p as { text?: unknown; hold?: unknown };
+    const hold = Number(o.hold);
+    return {
+      text: String(o.text ?? ""),
+      hold: o.hold != null && Number.isFinite(hold) ? hold : undefined,
+    };
+  }
+  return { text: String(p ?? "") };
+};
+
+const commonPrefix = (a: string, b: string) => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+};
+
 @customElement("type-writer")
 export class TypeWriterEl extends LitElement {
   @property({ attribute: "text" }) textAttr?: string;
@@ -21,6 +41,10 @@ export class TypeWriterEl extends LitElement {
   @property({ type: String }) caretChar = "";
   @property({ type: Number }) delay = 0;
 
+  @property({ type: Boolean, reflect: true }) rotate = false;
+  @property({ type: Number }) hold = 1600;
+  @property({ type: Number }) loops = 0;
+
   @property({ type: Boolean }) reserve = true;
   @property({ type: Boolean }) fade = true;
 
@@ -36,6 +60,11 @@ export class TypeWriterEl extends LitElement {
   private _dir: 1 | -1 = 1;
   private _inited = false;
 
+  private _phrases: Phrase[] = [];
+  private _phrase = 0;
+  private _pass = 0;
+  private _prefix = 0;
+
   private _flip = 0;
 
   private _uid = `tw${++TW_SEQ}`;
@@ -82,6 +111,10 @@ export class TypeWriterEl extends LitElement {
     this._pos = 0;
     this._dir = 1;
     this._display = "";
+    this._phrase = 0;
+    this._pass = 0;
+    this._prefix = 0;
+    if (this.rotate && this._phrases.length) this._full = this._phrases[0].text;
   }
   restart() {
     this.reset();
@@ -93,11 +126,15 @@ export class TypeWriterEl extends LitElement {
     this._inited = true;
 
     let txt: Input | undefined;
+    let list: unknown[] | undefined;
     if (this.textAttr?.length) txt = this.textAttr;
     else if (this.dataText) {
       try {
         const parsed = JSON.parse(this.dataText);
-        txt = Array.isArray(parsed) ? parsed.join("\n") : String(parsed ?? "");
+        if (Array.isArray(parsed)) {
+          list = parsed;
+          txt = parsed.map((p) => toPhrase(p).text).join("\n");
+        } else txt = String(parsed ?? "");
       } catch {}
     }
     if (!txt) {
@@ -107,6 +144,14 @@ export class TypeWriterEl extends LitElement {
     }
     if (Array.isArray(txt)) txt = txt.join("\n");
     this._full = (txt ?? "").toString();
+
+    // Rotation: one phrase per array item, or per line of plain text.
+    if (this.rotate) {
+      this._phrases = (list ?? this._full.split("\n"))
+        .map(toPhrase)
+        .filter((p) => p.text);
+      this._full = this._phrases[0]?.text ?? "";
+    }
   }
 
   private reserveHeight() {
@@ -116,7 +161,6 @@ export class TypeWriterEl extends LitElement {
     const cs = getComputedStyle(this);
     const r = this.getBoundingClientRect();
 
-    meas.textContent = this._full;
     meas.style.position = "fixed";
     meas.style.left = "-9999px";
     meas.style.top = "0";
@@ -131,7 +175,12 @@ export class TypeWriterEl extends LitElement {
     meas.style.fontWeight = cs.fontWeight as string;
 
     document.body.appendChild(meas);
-    const h = Math.ceil(meas.getBoundingClientRect().height);
+    let h = 0;
+    const texts = this.rotate ? this._phrases.map((p) => p.text) : [this._full];
+    for (const t of texts) {
+      meas.textContent = t;
+      h = Math.max(h, Math.ceil(meas.getBoundingClientRect().height));
+    }
     document.body.removeChild(meas);
 
     this.setAttribute("data-tw", this._uid);
@@ -203,6 +252,10 @@ export class TypeWriterEl extends LitElement {
       this._display = this._full.slice(0, this._pos);
 
       if (this._pos >= len) {
+        if (this.rotate && this._phrases.length > 1) {
+          this.holdPhrase();
+          return;
+        }
         if (this.loop) {
           this._dir = -1;
           this._timer = window.setTimeout(() => this.tick(), 600);
@@ -216,6 +269,10 @@ export class TypeWriterEl extends LitElement {
         this.nextDelay(ch, false),
       );
     } else {
+      if (this.rotate && this._pos <= this._prefix) {
+        this.nextPhrase();
+        return;
+      }
       const prevCh = this._full.charAt(Math.max(0, this._pos - 1));
       this._pos = Math.max(0, this._pos - 1);
       this._display = this._full.slice(0, this._pos);
@@ -232,6 +289,46 @@ export class TypeWriterEl extends LitElement {
     }
   }
 
+  /**
+   * Holds the finished phrase, then deletes back to the prefix it shares
+   * with the next one. Stops on the last phrase once the passes run out:
+   * `loops` when set, else one pass, or endless with `loop`.
+   */
+  private holdPhrase() {
+    const count = this._phrases.length;
+    if (this._phrase === count - 1) {
+      const passes = this.loops > 0 ? this.loops : this.loop ? Infinity : 1;
+      if (this._pass + 1 >= passes) {
+        this._playing = false;
+        return;
+      }
+    }
+    const next = this._phrases[(this._phrase + 1) % count].text;
+    this._prefix = commonPrefix(this._full, next);
+    this._dir = -1;
+    const hold = this._phrases[this._phrase].hold ?? this.hold;
+    this._timer = window.setTimeout(() => this.tick(), Math.max(0, hold));
+  }
+
+  private nextPhrase() {
+    const previous = this._phrase;
+    this._phrase = (previous + 1) % this._phrases.length;
+    if (this._phrase === 0) this._pass++;
+    this._full = this._phrases[this._phrase].text;
+    this._dir = 1;
+    this.dispatchEvent(
+      new CustomEvent("phrase-change", {
+        detail: {
+          index: this._phrase,
+          previous,
+          text: this._full,
+          pass: this._pass,
+        },
+      }),
+    );
+    this._timer = window.setTimeout(() => this.tick(), 200);
+  }
+
   private ensureStyle() {
     const id = "tw-core-style";
     if (document.getElementById(id)) return;